@@ -1,6 +1,6 @@
 import test from "node:test";
 import assert from "node:assert";
-import { EntityDefinition, ManyRelationship, OneRelationship, loadRelationsForArray, mapArrayToEntity } from "./index.js";
+import { AggregateRelationship, BatchContext, EntityDefinition, IdentifiableEntityDefinition, IdentityMap, ManyRelationship, MappingError, OneRelationship, PrimaryKeyValue, RelationLoadError, RelationLoadEvent, SnadiError, Span, StandardSchemaV1, UniqueConstraintError, ValidationError, changedFields, decodeCursor, encodeCursor, keyValue, loadRelationsForArray, loadRelationsForEntity, mapArrayToEntity, mapToEntity, normalizeDriverError, snapshotEntity, toKeyValues, tracingListeners, uniqueOrderBy, upsertColumns, validateWithSchema, withLazyRelations, withTimestamps } from "./index.js";
 
 // ENTITY: BOOKSTORE
 
@@ -104,6 +104,14 @@ const authorBooks = () => ({
       (author) => books.filter(b => b.authorName === author.name),
 } satisfies ManyRelationship<typeof authorEntityDef, typeof bookEntityDef>);
 
+// aggregate author->book count
+const authorBookCount = () => ({
+  load: async () => [{ authorName: "Neil Gaiman", count: 1 }, { authorName: "Terry Pratchett", count: 3 }],
+  attach:
+    (rows) =>
+      (author) => rows.find(r => r.authorName === author.name)?.count ?? 0,
+} satisfies AggregateRelationship<typeof authorEntityDef, number>);
+
 // TEST CASES
 
 test("1:1 relations", async (t) => {
@@ -174,3 +182,415 @@ test("Nested relations", async (t) => {
     }
   }
 });
+
+test("afterLoad option", async (t) => {
+  const loaded: Array<[EntityDefinition, unknown]> = [];
+  const books = await mapArrayToEntity(bookEntityDef, rawBooks);
+  await loadRelationsForArray(books, {
+    author: [bookAuthor(), {
+      books: authorBooks(),
+    }],
+  }, {
+    afterLoad: (entityDef, entity) => {
+      loaded.push([entityDef, entity]);
+    },
+  });
+
+  assert.strictEqual(loaded.filter(([entityDef]) => entityDef === authorEntityDef).length, rawAuthors.length);
+  assert.strictEqual(loaded.filter(([entityDef]) => entityDef === bookEntityDef).length, rawBooks.length);
+});
+
+test("Schema validation", async (t) => {
+  // A minimal Standard Schema implementation that requires string fields and trims them
+  const stringFields = (...fields: string[]): StandardSchemaV1<any, any> => ({
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value: any) => {
+        const issues = fields
+          .filter(field => typeof value[field] !== "string")
+          .map(field => ({ message: "Expected a string", path: [field] }));
+        return issues.length
+          ? { issues }
+          : { value: { ...value, ...Object.fromEntries(fields.map(field => [field, value[field].trim()])) } };
+      },
+    },
+  });
+
+  const validatedBookDef = {
+    tableName: "books",
+    schema: stringFields("title", "authorName"),
+    toEntity: async (data: Book) => ({ ...data }),
+  } satisfies EntityDefinition & { tableName: string };
+
+  const [book] = await mapArrayToEntity(validatedBookDef, [{ ...rawBooks[0], title: " Fragile Things " }]);
+  assert.strictEqual(book.title, "Fragile Things");
+
+  const authorValidatedBooks = () => ({
+    ...authorBooks(),
+    otherEntity: validatedBookDef,
+    load: async () => [...rawBooks, { title: null, authorName: "Neil Gaiman", bookstoreName: "Brigitte's Books" }],
+  });
+  const bookstores = await mapArrayToEntity(bookstoreEntityDef, rawBookstores);
+  await assert.rejects(
+    loadRelationsForArray(bookstores, {
+      books: [bookstoreBooks(), {
+        author: [bookAuthor(), {
+          books: authorValidatedBooks(),
+        }],
+      }],
+    }),
+    (error) => {
+      assert.ok(error instanceof ValidationError);
+      assert.strictEqual(error.entity, "books");
+      assert.strictEqual(error.relationPath, "books.author.books");
+      assert.strictEqual(error.field, "title");
+      assert.strictEqual(error.message, "Invalid books (relation books.author.books, field title): Expected a string");
+      return true;
+    },
+  );
+
+  await assert.rejects(validateWithSchema(validatedBookDef, stringFields("title"), {}), { field: "title", relationPath: null });
+});
+
+test("Errors", async (t) => {
+  const failingBookDef = {
+    tableName: "books",
+    toEntity: (data: Book) => {
+      if (data.title === "The Last Hero") {
+        throw new Error("No heroes");
+      }
+      return { ...data };
+    },
+  } satisfies EntityDefinition & { tableName: string };
+
+  await assert.rejects(mapArrayToEntity(failingBookDef, rawBooks), (error) => {
+    assert.ok(error instanceof MappingError);
+    assert.ok(error instanceof SnadiError);
+    assert.strictEqual(error.entity, "books");
+    assert.strictEqual(error.rowIndex, 3);
+    assert.strictEqual((error.cause as Error).message, "No heroes");
+    return true;
+  });
+
+  const databaseError = new Error("connection lost");
+  const bookstores = await mapArrayToEntity(bookstoreEntityDef, rawBookstores);
+  await assert.rejects(
+    loadRelationsForArray(bookstores, {
+      books: [bookstoreBooks(), {
+        author: { ...bookAuthor(), load: async () => { throw databaseError; } },
+      }],
+    }),
+    (error) => {
+      assert.ok(error instanceof RelationLoadError);
+      assert.strictEqual(error.relationPath, "books.author");
+      assert.strictEqual(error.cause, databaseError);
+      return true;
+    },
+  );
+
+  for (const driverError of [
+    Object.assign(new Error("UNIQUE constraint failed: books.title"), { code: "SQLITE_CONSTRAINT_UNIQUE" }),
+    Object.assign(new Error("SQLITE_CONSTRAINT: UNIQUE constraint failed: books.title"), { code: "SQLITE_CONSTRAINT" }),
+    Object.assign(new Error("duplicate key value violates unique constraint"), { code: "23505" }),
+    Object.assign(new Error("Duplicate entry 'x' for key 'title'"), { code: "ER_DUP_ENTRY" }),
+  ]) {
+    const error = normalizeDriverError(failingBookDef, driverError);
+    assert.ok(error instanceof UniqueConstraintError);
+    assert.strictEqual(error.entity, "books");
+    assert.strictEqual(error.cause, driverError);
+  }
+  const notNullError = Object.assign(new Error("SQLITE_CONSTRAINT: NOT NULL constraint failed: books.title"), { code: "SQLITE_CONSTRAINT" });
+  assert.strictEqual(normalizeDriverError(failingBookDef, notNullError), notNullError);
+  assert.strictEqual((normalizeDriverError("book_tags", { code: "SQLITE_CONSTRAINT_PRIMARYKEY" }) as UniqueConstraintError).entity, "book_tags");
+});
+
+test("Aggregate relations", async (t) => {
+  const authors = await mapArrayToEntity(authorEntityDef, [...rawAuthors, { name: "Unknown Author" }]);
+  const authorsWithCounts = await loadRelationsForArray(authors, {
+    bookCount: authorBookCount(),
+  });
+  const bookCount: number = authorsWithCounts[0].bookCount;
+  assert.strictEqual(bookCount, 1);
+  assert.strictEqual(authorsWithCounts[1].bookCount, 3);
+  assert.strictEqual(authorsWithCounts[2].bookCount, 0);
+});
+
+test("Batched relations", async (t) => {
+  const loadCalls: string[][] = [];
+  const batchedBookAuthor = () => ({
+    otherEntity: authorEntityDef,
+    load: async (books) => {
+      loadCalls.push(books.map(b => b.title));
+      const authorNames = new Set(books.map(b => b.authorName));
+      return rawAuthors.filter(a => authorNames.has(a.name));
+    },
+    attach:
+      (authors) =>
+        (book) => authors.find(a => a.name === book.authorName) ?? null,
+    batchKey: "book-author",
+  } satisfies OneRelationship<typeof bookEntityDef, typeof authorEntityDef>);
+
+  const batchContext = new BatchContext();
+  const books = await mapArrayToEntity(bookEntityDef, rawBooks);
+  const results = await Promise.all(books.map(book => loadRelationsForEntity(book, {
+    author: [batchedBookAuthor(), {
+      books: authorBooks(),
+    }],
+  }, { batchContext })));
+
+  assert.strictEqual(loadCalls.length, 1);
+  assert.strictEqual(loadCalls[0].length, books.length);
+  for (const book of results) {
+    assert.strictEqual(book.author!.name, book.authorName);
+    assert.ok(book.author!.books.every(b => b.authorName === book.authorName));
+  }
+
+  // Loads issued in a later tick get a batch of their own
+  await loadRelationsForEntity(books[0], { author: batchedBookAuthor() }, { batchContext });
+  assert.strictEqual(loadCalls.length, 2);
+});
+
+test("Identity map", async (t) => {
+  const identifiableAuthorEntityDef = {
+    primaryKey: "name",
+    toEntity: async (data: Author) => ({ ...data }),
+  } satisfies IdentifiableEntityDefinition;
+
+  const identifiableBookAuthor = () => ({
+    otherEntity: identifiableAuthorEntityDef,
+    load: async () => [...rawAuthors],
+    attach:
+      (authors) =>
+        (book) => authors.find(a => a.name === book.authorName) ?? null,
+  } satisfies OneRelationship<typeof bookEntityDef, typeof identifiableAuthorEntityDef>);
+
+  const identityMap = new IdentityMap();
+  const authors = await mapArrayToEntity(identifiableAuthorEntityDef, rawAuthors, identityMap);
+  const neil = await mapToEntity(identifiableAuthorEntityDef, { name: "Neil Gaiman" }, identityMap);
+  assert.strictEqual(neil, authors[0]);
+
+  const books = await mapArrayToEntity(bookEntityDef, rawBooks, identityMap);
+  const booksWithAuthors = await loadRelationsForArray(books, {
+    author: identifiableBookAuthor(),
+  }, { identityMap });
+  assert.strictEqual(booksWithAuthors[0].author, authors[0]);
+  for (const book of booksWithAuthors.slice(1)) {
+    assert.strictEqual(book.author, authors[1]);
+  }
+
+  // Without the identity map, every load gets new instances
+  const otherAuthors = await mapArrayToEntity(identifiableAuthorEntityDef, rawAuthors);
+  assert.notStrictEqual(otherAuthors[0], authors[0]);
+});
+
+test("Composite keys", async (t) => {
+  assert.strictEqual(keyValue({ id: 1 }, "id"), 1);
+  assert.strictEqual(keyValue({ id: 1 }, ["id"]), 1);
+  assert.strictEqual(keyValue({ tenant_id: 1, id: 2 }, ["tenant_id", "id"]), keyValue({ id: 2, tenant_id: 1 }, ["tenant_id", "id"]));
+  assert.notStrictEqual(keyValue({ tenant_id: 1, id: 2 }, ["tenant_id", "id"]), keyValue({ tenant_id: 2, id: 1 }, ["tenant_id", "id"]));
+  assert.strictEqual(keyValue({ tenant_id: 1, id: null }, ["tenant_id", "id"]), null);
+  assert.strictEqual(keyValue({ tenant_id: 1n, id: 2n }, ["tenant_id", "id"]), keyValue({ id: 2n, tenant_id: 1n }, ["tenant_id", "id"]));
+  assert.notStrictEqual(keyValue({ tenant_id: 1n, id: 2n }, ["tenant_id", "id"]), keyValue({ tenant_id: 1, id: 2 }, ["tenant_id", "id"]));
+  assert.notStrictEqual(keyValue({ tenant_id: 1n, id: 2n }, ["tenant_id", "id"]), keyValue({ tenant_id: "1", id: "2" }, ["tenant_id", "id"]));
+
+  const compositeAuthorEntityDef = {
+    primaryKey: ["name", "born"],
+    toEntity: async (data: Author & { born: number }) => ({ ...data }),
+  } satisfies IdentifiableEntityDefinition;
+
+  const identityMap = new IdentityMap();
+  const neil = await mapToEntity(compositeAuthorEntityDef, { name: "Neil Gaiman", born: 1960 }, identityMap);
+  const sameNeil = await mapToEntity(compositeAuthorEntityDef, { name: "Neil Gaiman", born: 1960 }, identityMap);
+  const otherNeil = await mapToEntity(compositeAuthorEntityDef, { name: "Neil Gaiman", born: 1961 }, identityMap);
+  assert.strictEqual(sameNeil, neil);
+  assert.notStrictEqual(otherNeil, neil);
+
+  const constAuthorEntityDef = { ...compositeAuthorEntityDef, primaryKey: ["name", "born"] as const };
+  const key: PrimaryKeyValue<typeof constAuthorEntityDef> = ["Neil Gaiman", 1960];
+  assert.deepStrictEqual(toKeyValues(constAuthorEntityDef.primaryKey, key), ["Neil Gaiman", 1960]);
+  assert.deepStrictEqual(toKeyValues("id", 1), [1]);
+});
+
+test("Lazy relations", async (t) => {
+  let loadCalls = 0;
+  const countedBookAuthor = () => ({
+    ...bookAuthor(),
+    load: async () => {
+      loadCalls++;
+      return [...rawAuthors];
+    },
+  } satisfies OneRelationship<typeof bookEntityDef, typeof authorEntityDef>);
+
+  const books = withLazyRelations(await mapArrayToEntity(bookEntityDef, rawBooks), {
+    author: countedBookAuthor(),
+    details: bookBookDetails(),
+  });
+  assert.ok(! ("author" in books[0]));
+  assert.deepStrictEqual(Object.keys(books[0]).sort(), ["authorName", "bookstoreName", "title"]);
+
+  const authors = await Promise.all(books.map(book => book.$load("author")));
+  assert.strictEqual(loadCalls, 1);
+  assert.deepStrictEqual(authors.map(a => a!.name), books.map(b => b.authorName));
+
+  const author = await books[0].$load("author");
+  assert.strictEqual(loadCalls, 1);
+  assert.strictEqual(author, authors[0]);
+
+  const details = await books[0].$load("details");
+  assert.strictEqual(details!.bookTitle, books[0].title);
+});
+
+test("Relation load concurrency", async (t) => {
+  let active = 0;
+  let maxActive = 0;
+  const tracked = <R extends { load: (...args: any[]) => any }>(relationship: R): R => ({
+    ...relationship,
+    load: async (...args: any[]) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return relationship.load(...args);
+    },
+  });
+
+  const bookstores = await mapArrayToEntity(bookstoreEntityDef, rawBookstores);
+  const bookstoresWithRelations = await loadRelationsForArray(bookstores, {
+    books: [tracked(bookstoreBooks()), {
+      details: tracked(bookBookDetails()),
+      author: [tracked(bookAuthor()), {
+        books: tracked(authorBooks()),
+      }],
+    }],
+    otherBooks: tracked(bookstoreBooks()),
+  }, { maxConcurrency: 1 });
+
+  assert.strictEqual(maxActive, 1);
+  for (const bookstore of bookstoresWithRelations) {
+    assert.deepStrictEqual(bookstore.books.map(book => book.title), bookstore.otherBooks.map(book => book.title));
+    for (const book of bookstore.books) {
+      assert.ok(Array.isArray(book.author!.books));
+    }
+  }
+
+  // Batched loads are limited too
+  maxActive = 0;
+  const batched = (batchKey: string) => ({ ...tracked(bookstoreBooks()), batchKey });
+  await loadRelationsForArray(bookstores, {
+    books: batched("books"),
+    otherBooks: batched("otherBooks"),
+    moreBooks: batched("moreBooks"),
+  }, { maxConcurrency: 1, batchContext: new BatchContext() });
+  assert.strictEqual(maxActive, 1);
+
+  // No free slot would make loads wait forever
+  for (const maxConcurrency of [0, -1, 1.5]) {
+    await assert.rejects(loadRelationsForArray(bookstores, { books: bookstoreBooks() }, { maxConcurrency }), {
+      name: "SnadiError",
+      message: `maxConcurrency must be a positive integer, got ${maxConcurrency}`,
+    });
+  }
+});
+
+test("Pagination cursors", async (t) => {
+  const orderBy = uniqueOrderBy([["books.title", "desc"]], ["tenant_id", "id"]);
+  assert.deepStrictEqual(orderBy, [["books.title", "desc"], ["tenant_id", "asc"], ["id", "asc"]]);
+  assert.deepStrictEqual(uniqueOrderBy([["id", "desc"]], "id"), [["id", "desc"]]);
+  assert.throws(() => uniqueOrderBy([]));
+
+  const cursor = encodeCursor({ title: "Mort", tenant_id: 1, id: 2 }, orderBy);
+  assert.deepStrictEqual(decodeCursor(cursor, orderBy), ["Mort", 1, 2]);
+  assert.throws(() => decodeCursor("not a cursor", orderBy));
+  assert.throws(() => decodeCursor(cursor, [["id", "asc"]]));
+});
+
+test("Timestamps", async (t) => {
+  const timestamps = { createdAt: "created_at", updatedAt: "updated_at", clock: () => "2024-01-01" };
+  assert.deepStrictEqual(withTimestamps(timestamps, { title: "Mort" }, "insert"), { title: "Mort", created_at: "2024-01-01", updated_at: "2024-01-01" });
+  assert.deepStrictEqual(withTimestamps(timestamps, { created_at: "1987-11-12" }, "insert"), { created_at: "1987-11-12", updated_at: "2024-01-01" });
+  assert.deepStrictEqual(withTimestamps(timestamps, { title: "Mort" }, "update"), { title: "Mort", updated_at: "2024-01-01" });
+  assert.deepStrictEqual(withTimestamps(timestamps, { updated_at: "1987-11-12" }, "update"), { updated_at: "1987-11-12" });
+  assert.ok(withTimestamps({ createdAt: "created_at" }, {}, "insert").created_at instanceof Date);
+
+  const rows = [{ id: 1, title: "Mort", created_at: "2024-01-01", updated_at: "2024-01-01" }];
+  assert.deepStrictEqual(upsertColumns(timestamps, rows, "all"), ["id", "title", "updated_at"]);
+  assert.deepStrictEqual(upsertColumns(timestamps, rows, ["title"]), ["title", "updated_at"]);
+  assert.deepStrictEqual(upsertColumns(undefined, rows, ["title"]), ["title"]);
+});
+
+test("Change tracking", async (t) => {
+  const bookDef = { toEntity: (data: Book) => ({ ...data, tags: ["fantasy"], published: new Date(0) }) } satisfies EntityDefinition;
+  const book = await mapToEntity(bookDef, rawBooks[0]);
+  assert.strictEqual(changedFields(book), null);
+
+  snapshotEntity(bookDef, book);
+  assert.deepStrictEqual(changedFields(book), { entityDef: bookDef, changes: {} });
+  book.title = "Changed";
+  book.tags.push("humour");
+  book.published.setTime(1000);
+  (book as any).relation = [];
+  assert.deepStrictEqual(changedFields(book)!.changes, { title: "Changed", tags: ["fantasy", "humour"], published: new Date(1000) });
+
+  // Existing snapshots are only replaced when asked to
+  snapshotEntity(bookDef, book);
+  assert.strictEqual(Object.keys(changedFields(book)!.changes).length, 3);
+  snapshotEntity(bookDef, book, { replace: true });
+  assert.deepStrictEqual(changedFields(book)!.changes, {});
+  // Fields added since the first snapshot stay untracked
+  (book as any).relation.push("changed");
+  assert.deepStrictEqual(changedFields(book)!.changes, {});
+
+  const otherBook = await mapToEntity(bookDef, { ...rawBooks[1], pivot: { position: 1 } } as Book);
+  snapshotEntity(bookDef, otherBook, { exclude: ["pivot"] });
+  (otherBook as any).pivot.position = 2;
+  assert.deepStrictEqual(changedFields(otherBook)!.changes, {});
+});
+
+test("Relation load events", async (t) => {
+  const events: RelationLoadEvent[] = [];
+  const loadContexts: unknown[] = [];
+  const books = await mapArrayToEntity(bookEntityDef, rawBooks);
+  await loadRelationsForArray(books, {
+    author: [{
+      ...bookAuthor(),
+      table: "authors",
+      keys: { localFields: ["authorName"], otherFields: ["name"] },
+      load: async (entities, context) => {
+        loadContexts.push(context);
+        return [...rawAuthors];
+      },
+    }, {
+      books: authorBooks(),
+    }],
+  }, {
+    onRelationLoad: event => events.push(event),
+  });
+
+  assert.deepStrictEqual(loadContexts, [{ relationPath: "author" }]);
+  assert.deepStrictEqual(events.map(({ durationMs, ...event }) => event), [
+    { table: "authors", relationPath: "author", keyCount: 2, rowCount: rawAuthors.length },
+    { table: null, relationPath: "author.books", keyCount: rawAuthors.length, rowCount: rawBooks.length },
+  ]);
+  assert.ok(events.every(event => event.durationMs >= 0));
+
+  // An in-memory tracer records the spans of the events
+  const spans: Array<{ name: string; attributes: Record<string, string | number>; startTime: number; endTime?: number }> = [];
+  const listeners = tracingListeners({
+    startSpan: (name, { attributes, startTime }): Span => {
+      const span: typeof spans[number] = { name, attributes, startTime };
+      spans.push(span);
+      return { end: (endTime) => { span.endTime = endTime; } };
+    },
+  });
+  listeners.onRelationLoad(events[0]);
+  listeners.onQuery({ table: "authors", relationPath: "author", sql: "select * from authors", rowCount: 2, durationMs: 5 });
+  listeners.onQuery({ table: "authors", relationPath: null, sql: "insert into authors", rowCount: 0, durationMs: 1, error: new TypeError("Failed") });
+
+  assert.deepStrictEqual(spans.map(({ name, attributes }) => ({ name, attributes })), [
+    { name: "snadi.relation author", attributes: { "snadi.relation_path": "author", "snadi.key_count": 2, "db.response.returned_rows": rawAuthors.length, "db.collection.name": "authors" } },
+    { name: "snadi.query authors", attributes: { "db.collection.name": "authors", "db.query.text": "select * from authors", "db.response.returned_rows": 2, "snadi.relation_path": "author" } },
+    { name: "snadi.query authors", attributes: { "db.collection.name": "authors", "db.query.text": "insert into authors", "db.response.returned_rows": 0, "error.type": "TypeError" } },
+  ]);
+  assert.strictEqual(spans[1].endTime! - spans[1].startTime, 5);
+});
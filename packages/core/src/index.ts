@@ -4,8 +4,190 @@ function isPromise(input: any): input is Promise<any> {
 
 export type Mappable = {
   toEntity: (raw: any) => any;
+  // Validates raw rows before they are passed to toEntity()
+  schema?: StandardSchemaV1;
 };
 
+// Base class of every error thrown by snadi, errors thrown by drivers or callbacks are passed as the cause
+export class SnadiError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class EntityNotFoundError extends SnadiError {
+  constructor(
+    public readonly entity: string,
+    // The primary key that was looked up, if any
+    public readonly key?: unknown,
+  ) {
+    super(`No ${entity} found${key === undefined ? "" : ` for key ${JSON.stringify(key)}`}`);
+  }
+}
+
+// Wraps exceptions thrown by toEntity()
+export class MappingError extends SnadiError {
+  constructor(
+    public readonly entity: string,
+    // Index of the row in the loaded rows
+    public readonly rowIndex: number,
+    public readonly relationPath: string | null,
+    cause: unknown,
+  ) {
+    super(`Failed to map ${entity} row ${rowIndex}${relationPath ? ` of relation ${relationPath}` : ""}: ${errorMessage(cause)}`, { cause });
+  }
+}
+
+// Wraps exceptions thrown while loading a relationship, e.g. by the database
+export class RelationLoadError extends SnadiError {
+  constructor(
+    // Dotted path of the relation, e.g. books.pages
+    public readonly relationPath: string | null,
+    cause: unknown,
+  ) {
+    super(`Failed to load relation${relationPath ? ` ${relationPath}` : ""}: ${errorMessage(cause)}`, { cause });
+  }
+}
+
+export class UniqueConstraintError extends SnadiError {
+  constructor(public readonly entity: string, cause: unknown) {
+    super(`Unique constraint of ${entity} violated: ${errorMessage(cause)}`, { cause });
+  }
+}
+
+// Thrown by orm.update() when no row of an entity with a version column has the expected version anymore
+export class StaleEntityError extends SnadiError {
+  constructor(public readonly entity: string, public readonly expectedVersion: unknown) {
+    super(`${entity} was changed or deleted since version ${JSON.stringify(expectedVersion)}`);
+  }
+}
+
+// Thrown by orm.deleteCascade() for relations with an onDelete: "restrict" rule that still have related entities
+export class RestrictedDeleteError extends SnadiError {
+  constructor(
+    public readonly entity: string,
+    // Dotted path of the relation, e.g. books.details
+    public readonly relationPath: string,
+    // Number of related entities
+    public readonly count: number,
+  ) {
+    super(`Can't delete ${entity}, relation ${relationPath} still has ${count} related entities`);
+  }
+}
+
+function isUniqueConstraintViolation(error: any): boolean {
+  switch (error?.code) {
+    // better-sqlite3
+    case "SQLITE_CONSTRAINT_UNIQUE":
+    case "SQLITE_CONSTRAINT_PRIMARYKEY":
+    // pg
+    case "23505":
+    // mysql and mysql2
+    case "ER_DUP_ENTRY":
+      return true;
+    // sqlite3 only has the primary result code
+    case "SQLITE_CONSTRAINT":
+      return /UNIQUE constraint failed/.test(error.message);
+    default:
+      return false;
+  }
+}
+
+// Turns driver errors that the ORMs know about into snadi errors, other errors are returned as-is.
+// Writes to tables without an entity definition, e.g. pivot tables, pass the table name.
+export function normalizeDriverError(entity: EntityDefinition | string, error: unknown): unknown {
+  return isUniqueConstraintViolation(error) ? new UniqueConstraintError(typeof entity === "string" ? entity : entityName(entity), error) : error;
+}
+
+// The Standard Schema interface that zod, valibot, arktype and others implement, see https://standardschema.dev
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+};
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export type StandardSchemaIssue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+};
+
+export class ValidationError extends SnadiError {
+  constructor(
+    public readonly entity: string,
+    // Dotted path of the relation the row was loaded through, e.g. books.pages
+    public readonly relationPath: string | null,
+    // Dotted path of the first invalid field, null if the issue is about the whole value
+    public readonly field: string | null,
+    public readonly issues: ReadonlyArray<StandardSchemaIssue>,
+  ) {
+    const location = [
+      relationPath && `relation ${relationPath}`,
+      field && `field ${field}`,
+    ].filter(Boolean).join(", ");
+    super(`Invalid ${entity}${location ? ` (${location})` : ""}: ${issues[0]?.message ?? "validation failed"}`);
+  }
+}
+
+// Entity definitions of the adapters are named by their table
+export function entityName(entityDef: EntityDefinition): string {
+  return (entityDef as { tableName?: string }).tableName ?? "entity";
+}
+
+// Returns the schema's output for the value, e.g. with coerced fields, or throws a ValidationError
+export async function validateWithSchema<Output>(
+  entityDef: EntityDefinition,
+  schema: StandardSchemaV1<unknown, Output>,
+  value: unknown,
+  relationPath: string | null = null,
+): Promise<Output> {
+  const result = await schema["~standard"].validate(value);
+  if (result.issues) {
+    const path = result.issues[0]?.path ?? [];
+    const field = path.map(segment => String(typeof segment === "object" ? segment.key : segment)).join(".");
+    throw new ValidationError(entityName(entityDef), relationPath, field || null, result.issues);
+  }
+  return result.value;
+}
+
+// A schema for definitions that wrap other ones: validates rows with the schema returned by getSchema(),
+// leaving passthrough fields (e.g. aliases added by relation queries) out of validation
+export function passthroughSchema(
+  getSchema: (value: any) => StandardSchemaV1 | undefined,
+  isPassthrough: (field: string) => boolean,
+): StandardSchemaV1 {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "snadi",
+      validate: async (value: any) => {
+        const schema = getSchema(value);
+        if (! schema) {
+          return { value };
+        }
+        const passthrough: Record<string, unknown> = {};
+        const rest: Record<string, unknown> = {};
+        for (const [field, fieldValue] of Object.entries(value)) {
+          (isPassthrough(field) ? passthrough : rest)[field] = fieldValue;
+        }
+        const result = await schema["~standard"].validate(rest);
+        return result.issues ? result : { value: { ...(result.value as object), ...passthrough } };
+      },
+    },
+  };
+}
+
 export type MappableInputType<T extends Mappable> = Parameters<T["toEntity"]>[0];
 export type MappableOutputType<T extends Mappable> = Awaited<ReturnType<T["toEntity"]>>;
 
@@ -14,21 +196,88 @@ export type BaseRelationship<
   OtherEntityDef extends EntityDefinition,
 > = {
   otherEntity: OtherEntityDef;
-  load: (entities: Array<MappableOutputType<LocalEntityDef>>) => AsyncIterable<MappableInputType<OtherEntityDef>> | Promise<Iterable<MappableInputType<OtherEntityDef>>>;
+  // The table the other entities are loaded from, reported by relation load events
+  table?: string;
+  load: (entities: Array<MappableOutputType<LocalEntityDef>>, context?: LoadContext) => AsyncIterable<MappableInputType<OtherEntityDef>> | Promise<Iterable<MappableInputType<OtherEntityDef>>>;
+  // Relationships with the same batch key can be loaded together by a BatchContext
+  batchKey?: string;
+  // The fields joining both entities, orm.insertGraph() uses them to copy keys into foreign keys
+  keys?: { localFields: string[]; otherFields: string[] };
+  // The pivot table of many-to-many relationships, orm.attach(), detach() and sync() change its rows
+  pivot?: PivotTable;
+  // What orm.deleteCascade() does with related entities
+  onDelete?: OnDeleteRule;
+};
+
+// Passed to load() by loadRelationsForArray(), adapters pass the relation path on to their query events
+export type LoadContext = {
+  relationPath: string | null;
+};
+
+export type OnDeleteRule = "cascade" | "restrict" | "setNull";
+
+export type PivotTable = {
+  table: string;
+  localFields: string[];
+  pivotLocalFields: string[];
+  pivotOtherFields: string[];
+  otherFields: string[];
+};
+
+export type SyncResult = {
+  attached: unknown[];
+  detached: unknown[];
 };
 
+export function pivotTableOf(relationship: BaseRelationship<any, any>): PivotTable {
+  if (! relationship.pivot) {
+    throw new SnadiError(`Relation to ${entityName(relationship.otherEntity)} has no pivot table, only belongsToMany relations have one`);
+  }
+  return relationship.pivot;
+}
+
+// Keys of the other entity are single values, or tuples for composite keys
+export function pivotOtherValues(pivot: PivotTable, otherKey: unknown): unknown[] {
+  return toKeyValues(pivot.otherFields.length === 1 ? pivot.otherFields[0] : pivot.otherFields, otherKey);
+}
+
+// The pivot row linking the entity to the other entity with the given key
+export function pivotRow(pivot: PivotTable, entity: any, otherKey: unknown): Record<string, unknown> {
+  const otherValues = pivotOtherValues(pivot, otherKey);
+  return Object.fromEntries([
+    ...pivot.pivotLocalFields.map((field, i) => [field, entity[pivot.localFields[i]]]),
+    ...pivot.pivotOtherFields.map((field, i) => [field, otherValues[i]]),
+  ]);
+}
+
+// The key of the other entity of a pivot row, in the same form as the keys given to pivotRow()
+export function pivotOtherKey(pivot: PivotTable, row: any): unknown {
+  const values = pivot.pivotOtherFields.map(field => row[field]);
+  return values.length === 1 ? values[0] : values;
+}
+
+// attach() gets the entities of a load, and the rows load() returned for them in the same order
 export type ManyRelationship<
   LocalEntityDef extends EntityDefinition,
   OtherEntityDef extends EntityDefinition
 > = BaseRelationship<LocalEntityDef, OtherEntityDef> & {
-  attach: (otherEntities: Array<MappableOutputType<OtherEntityDef>>) => (entity: MappableOutputType<LocalEntityDef>) => Array<MappableOutputType<OtherEntityDef>>;
+  attach: (otherEntities: Array<MappableOutputType<OtherEntityDef>>, rows: unknown[]) => (entity: MappableOutputType<LocalEntityDef>) => Array<MappableOutputType<OtherEntityDef>>;
 };
 
 export type OneRelationship<
   LocalEntityDef extends EntityDefinition,
   OtherEntityDef extends EntityDefinition
 > = BaseRelationship<LocalEntityDef, OtherEntityDef> & {
-  attach: (otherEntities: Array<MappableOutputType<OtherEntityDef>>) => (entity: MappableOutputType<LocalEntityDef>) => MappableOutputType<OtherEntityDef> | null;
+  attach: (otherEntities: Array<MappableOutputType<OtherEntityDef>>, rows: unknown[]) => (entity: MappableOutputType<LocalEntityDef>) => MappableOutputType<OtherEntityDef> | null;
+};
+
+// Loads a scalar for each local entity (e.g. a count of related rows) instead of related entities
+export type AggregateRelationship<
+  LocalEntityDef extends EntityDefinition,
+  Result,
+> = {
+  load: (entities: Array<MappableOutputType<LocalEntityDef>>, context?: LoadContext) => AsyncIterable<any> | Promise<Iterable<any>>;
+  attach: (rows: any[]) => (entity: MappableOutputType<LocalEntityDef>) => Result;
 };
 
 export type EntityDefinition = Mappable;
@@ -38,7 +287,8 @@ export type RelationsToLoad = {
     | ManyRelationship<EntityDefinition, EntityDefinition>
     | [ManyRelationship<EntityDefinition, EntityDefinition>, RelationsToLoad]
     | OneRelationship<EntityDefinition, EntityDefinition>
-    | [OneRelationship<EntityDefinition, EntityDefinition>, RelationsToLoad];
+    | [OneRelationship<EntityDefinition, EntityDefinition>, RelationsToLoad]
+    | AggregateRelationship<EntityDefinition, unknown>;
 };
 
 export type WithLoadedRelations<Entity, Relations extends RelationsToLoad | undefined> = Entity & {
@@ -55,50 +305,641 @@ export type WithLoadedRelations<Entity, Relations extends RelationsToLoad | unde
           // Just OneRelationship
           : Relations[K] extends OneRelationship<any, any>
             ? MappableOutputType<Relations[K]["otherEntity"]> | null
-            : never;
+            // AggregateRelationship
+            : Relations[K] extends AggregateRelationship<any, infer Result>
+              ? Result
+              : never;
 };
 
-export function mapToEntity<EntityDef extends EntityDefinition>(entityDef: EntityDef, data: MappableInputType<EntityDef>) {
-  return entityDef.toEntity(data);
+// A single field, or a tuple of fields for composite keys such as (tenant_id, id)
+export type KeyFields = string | readonly string[];
+
+export function toKeyFields(fields: KeyFields): string[] {
+  return typeof fields === "string" ? [fields] : [...fields];
+}
+
+// Returns a value that can be used as a Map key. Composite keys with a missing part are null,
+// the same way they never match anything in SQL.
+export function keyValue(data: any, fields: KeyFields): unknown {
+  if (typeof fields === "string") {
+    return data[fields];
+  }
+  if (fields.length === 1) {
+    return data[fields[0]];
+  }
+  const values = fields.map(field => data[field]);
+  return values.some(value => value == null) ? null : JSON.stringify(values, bigintReplacer);
+}
+
+// JSON.stringify() throws on bigints, e.g. int8 columns or better-sqlite3's safeIntegers.
+// They stay apart from numbers and strings, like they do in single field keys.
+function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? { bigint: value.toString() } : value;
 }
 
-export async function mapArrayToEntity<EntityDef extends EntityDefinition>(entityDef: EntityDef, arr: AsyncIterable<MappableInputType<EntityDef>> | Iterable<MappableInputType<EntityDef>>) {
+// Entity definitions with a primary key can be tracked in an IdentityMap
+export type IdentifiableEntityDefinition = EntityDefinition & {
+  primaryKey?: KeyFields;
+};
+
+// The value of an entity's primary key, a tuple of values for composite keys.
+// Declare primary keys `as const` to get the types of their fields, e.g. primaryKey: ["tenant_id", "id"] as const
+export type PrimaryKeyValue<EntityDef extends IdentifiableEntityDefinition> =
+  EntityDef["primaryKey"] extends readonly [...infer Fields]
+    ? { [I in keyof Fields]: Fields[I] extends keyof MappableOutputType<EntityDef> ? MappableOutputType<EntityDef>[Fields[I]] : unknown }
+    : EntityDef["primaryKey"] extends keyof MappableOutputType<EntityDef>
+      ? MappableOutputType<EntityDef>[EntityDef["primaryKey"]]
+      : EntityDef["primaryKey"] extends readonly string[]
+        ? unknown[]
+        : unknown;
+
+// Returns the values of the key fields for a key value, e.g. [1, 2] for a composite key or [1] for a single field
+export function toKeyValues(fields: KeyFields, value: unknown): unknown[] {
+  return typeof fields === "string" ? [value] : [...value as unknown[]];
+}
+
+// Makes sure the same row is only mapped to an entity once, so every load within
+// a session (e.g. a request or a unit of work) gets back the same entity instance
+export class IdentityMap {
+  private entitiesByDefinition = new Map<EntityDefinition, Map<unknown, Promise<any>>>();
+
+  map<EntityDef extends EntityDefinition>(entityDef: EntityDef, data: MappableInputType<EntityDef>): Promise<MappableOutputType<EntityDef>> {
+    const primaryKey = (entityDef as IdentifiableEntityDefinition).primaryKey;
+    const key = primaryKey == null || data == null ? null : keyValue(data, primaryKey);
+    if (key == null) {
+      return Promise.resolve(entityDef.toEntity(data));
+    }
+    if (! this.entitiesByDefinition.has(entityDef)) {
+      this.entitiesByDefinition.set(entityDef, new Map());
+    }
+    const entities = this.entitiesByDefinition.get(entityDef)!;
+    if (! entities.has(key)) {
+      // The promise is stored so concurrent loads of the same row also share the entity
+      entities.set(key, Promise.resolve(entityDef.toEntity(data)));
+    }
+    return entities.get(key)!;
+  }
+
+  clear(): void {
+    this.entitiesByDefinition.clear();
+  }
+}
+
+// Where a row comes from, for error reporting
+export type MapContext = {
+  // Dotted path of the relation the row was loaded through, e.g. books.pages
+  relationPath?: string;
+  rowIndex?: number;
+};
+
+export async function mapToEntity<EntityDef extends EntityDefinition>(
+  entityDef: EntityDef,
+  data: MappableInputType<EntityDef>,
+  identityMap?: IdentityMap,
+  context: MapContext = {},
+): Promise<MappableOutputType<EntityDef>> {
+  const row = entityDef.schema ? await validateWithSchema(entityDef, entityDef.schema, data, context.relationPath) : data;
+  try {
+    return await (identityMap ? identityMap.map(entityDef, row) : entityDef.toEntity(row));
+  } catch (error) {
+    throw error instanceof SnadiError
+      ? error
+      : new MappingError(entityName(entityDef), context.rowIndex ?? 0, context.relationPath ?? null, error);
+  }
+}
+
+export async function mapArrayToEntity<EntityDef extends EntityDefinition>(
+  entityDef: EntityDef,
+  arr: AsyncIterable<MappableInputType<EntityDef>> | Iterable<MappableInputType<EntityDef>>,
+  identityMap?: IdentityMap,
+  context: Omit<MapContext, "rowIndex"> = {},
+) {
   const result: Array<MappableOutputType<EntityDef>> = [];
   for await (const data of arr) {
-      result.push(await entityDef.toEntity(data));
+      result.push(await mapToEntity(entityDef, data, identityMap, { ...context, rowIndex: result.length }));
   }
   return result;
 }
 
+export type LoadRelationsOptions = {
+  batchContext?: BatchContext;
+  identityMap?: IdentityMap;
+  // Maximum number of relationship loads to run at the same time, including nested relations
+  maxConcurrency?: number;
+  // Called for every entity mapped from a loaded relationship, e.g. to run lifecycle hooks
+  afterLoad?: (entityDef: EntityDefinition, entity: any) => void | Promise<void>;
+  // Called after each relationship load with the number of keys it was loaded for and the rows it returned
+  onRelationLoad?: (event: RelationLoadEvent) => void;
+};
+
+export type QueryEvent = {
+  table: string;
+  // Dotted path of the relationship the query loads, null for queries of the ORM itself
+  relationPath: string | null;
+  sql: string;
+  // Rows returned, or affected by updates and deletes
+  rowCount: number;
+  durationMs: number;
+  // The error the query failed with
+  error?: unknown;
+};
+
+export type RelationLoadEvent = {
+  // Table of the related entities, null for aggregates and relationships that don't tell theirs
+  table: string | null;
+  relationPath: string;
+  keyCount: number;
+  rowCount: number;
+  durationMs: number;
+};
+
+type Limiter = <T>(fn: () => Promise<T>) => Promise<T>;
+
+// Without a free slot, relation loads would wait forever
+export function checkMaxConcurrency(maxConcurrency: number | undefined): void {
+  if (maxConcurrency != null && ! (Number.isInteger(maxConcurrency) && maxConcurrency >= 1)) {
+    throw new SnadiError(`maxConcurrency must be a positive integer, got ${maxConcurrency}`);
+  }
+}
+
+function createLimiter(maxConcurrency?: number): Limiter {
+  checkMaxConcurrency(maxConcurrency);
+  let active = 0;
+  const queue: Array<() => void> = [];
+  return async (fn) => {
+    if (maxConcurrency == null) {
+      return fn();
+    }
+    if (active >= maxConcurrency) {
+      // The slot is handed over directly by the finishing load
+      await new Promise<void>(resolve => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await fn();
+    } finally {
+      const next = queue.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+type MapOptions = Pick<LoadRelationsOptions, "identityMap" | "afterLoad" | "onRelationLoad"> & {
+  // Dotted path of the relationship, e.g. books.pages
+  relationPath?: string;
+  // Runs the load within the maxConcurrency limit, batched loads use the one of the first caller
+  limit?: Limiter;
+};
+
+// The loaded entities, and the rows they were mapped from in the same order
+type LoadedEntities = {
+  entities: any[];
+  rows: unknown[];
+};
+
+async function loadOtherEntities(
+  relationship: BaseRelationship<EntityDefinition, EntityDefinition> | AggregateRelationship<EntityDefinition, unknown>,
+  entities: any[],
+  options: MapOptions,
+): Promise<LoadedEntities> {
+  const loadedEntities: any[] = [];
+  const rows: unknown[] = [];
+  const start = performance.now();
+  try {
+    const rawIterable = relationship.load(entities, { relationPath: options.relationPath ?? null });
+    const iterable = isPromise(rawIterable) ? await rawIterable : rawIterable;
+    for await (const data of iterable) {
+        // Aggregate relationships have no other entity, their rows are passed to attach() as-is
+        rows.push(data);
+        if (! ("otherEntity" in relationship)) {
+          loadedEntities.push(data);
+          continue;
+        }
+        const entity = await mapToEntity(relationship.otherEntity, data, options.identityMap, {
+          relationPath: options.relationPath,
+          rowIndex: loadedEntities.length,
+        });
+        await options.afterLoad?.(relationship.otherEntity, entity);
+        loadedEntities.push(entity);
+    }
+  } catch (error) {
+    throw error instanceof SnadiError ? error : new RelationLoadError(options.relationPath ?? null, error);
+  }
+  options.onRelationLoad?.({
+    table: "otherEntity" in relationship ? relationship.table ?? null : null,
+    relationPath: options.relationPath ?? "",
+    keyCount: relationKeyCount(relationship, entities),
+    rowCount: loadedEntities.length,
+    durationMs: performance.now() - start,
+  });
+  return { entities: loadedEntities, rows };
+}
+
+// Distinct local keys of the entities, or the number of entities for relationships that don't tell their keys
+function relationKeyCount(relationship: BaseRelationship<EntityDefinition, EntityDefinition> | AggregateRelationship<EntityDefinition, unknown>, entities: any[]): number {
+  const fields = "otherEntity" in relationship ? relationship.keys?.localFields ?? relationship.pivot?.localFields : undefined;
+  if (! fields) {
+    return entities.length;
+  }
+  return new Set(entities.map(entity => keyValue(entity, fields)).filter(key => key != null)).size;
+}
+
+type PendingBatch = {
+  relationship: BaseRelationship<EntityDefinition, EntityDefinition>;
+  entities: any[];
+  options: MapOptions;
+  promise: Promise<LoadedEntities>;
+};
+
+// Coalesces relationship loads with the same batch key that are issued in the same tick
+// into a single load() call. Meant to be created once per request.
+export class BatchContext {
+  private pendingBatches = new Map<string, PendingBatch>();
+  private schedule: (fn: () => void) => void;
+
+  constructor(options: { schedule?: (fn: () => void) => void } = {}) {
+    this.schedule = options.schedule ?? (fn => setTimeout(fn, 0));
+  }
+
+  async load(
+    relationship: (ManyRelationship<EntityDefinition, EntityDefinition> | OneRelationship<EntityDefinition, EntityDefinition>) & { batchKey: string },
+    entities: any[],
+    options: MapOptions = {},
+  ): Promise<LoadedEntities> {
+    let batch = this.pendingBatches.get(relationship.batchKey);
+    if (! batch) {
+      const newBatch: PendingBatch = { relationship, entities: [], options, promise: null! };
+      newBatch.promise = new Promise((resolve, reject) => {
+        this.schedule(() => {
+          this.pendingBatches.delete(relationship.batchKey);
+          const limit = newBatch.options.limit ?? (fn => fn());
+          limit(() => loadOtherEntities(newBatch.relationship, newBatch.entities, newBatch.options)).then(resolve, reject);
+        });
+      });
+      this.pendingBatches.set(relationship.batchKey, newBatch);
+      batch = newBatch;
+    }
+    batch.entities.push(...entities);
+
+    // Only pass on the other entities that belong to this caller's entities, with their rows
+    const loaded = await batch.promise;
+    const attachFn = relationship.attach(loaded.entities, loaded.rows);
+    const ownOtherEntities = new Set<any>();
+    for (const entity of entities) {
+      const attached = attachFn(entity);
+      for (const otherEntity of Array.isArray(attached) ? attached : [attached]) {
+        if (otherEntity != null) {
+          ownOtherEntities.add(otherEntity);
+        }
+      }
+    }
+    const ownIndexes = loaded.entities.flatMap((otherEntity, i) => ownOtherEntities.has(otherEntity) ? [i] : []);
+    return { entities: ownIndexes.map(i => loaded.entities[i]), rows: ownIndexes.map(i => loaded.rows[i]) };
+  }
+}
+
 export async function loadRelationsForArray<Entity, Relations extends RelationsToLoad>(
   entities: Entity[],
-  relations: Relations
+  relations: Relations,
+  options: LoadRelationsOptions = {},
 ): Promise<Array<WithLoadedRelations<Entity, Relations>>> {
+  await loadRelations(entities, relations, options, createLimiter(options.maxConcurrency), []);
+  return entities as Array<WithLoadedRelations<Entity, Relations>>;
+}
+
+async function loadRelations(
+  entities: any[],
+  relations: RelationsToLoad,
+  options: LoadRelationsOptions,
+  limit: Limiter,
+  path: string[],
+): Promise<void> {
   await Promise.all(Object.entries(relations).map(async ([key, relationshipOrNested]) => {
       const relationship = Array.isArray(relationshipOrNested) ? relationshipOrNested[0] : relationshipOrNested;
       const subrelations = Array.isArray(relationshipOrNested) ? relationshipOrNested[1] : {};
+      const relationPath = [...path, key];
+      const mapOptions: MapOptions = { ...options, relationPath: relationPath.join("."), limit };
 
-      const loadedEntities: any[] = [];
-      const rawIterable = relationship.load(entities);
-      const iterable = isPromise(rawIterable) ? await rawIterable : rawIterable;
-      for await (const data of iterable) {
-          loadedEntities.push(await relationship.otherEntity.toEntity(data));
+      // The limiter is only held during the load itself so nested relations can't starve their parents
+      const loaded = options.batchContext && "batchKey" in relationship && relationship.batchKey != null
+          ? await options.batchContext.load(relationship as typeof relationship & { batchKey: string }, entities, mapOptions)
+          : await limit(() => loadOtherEntities(relationship, entities, mapOptions));
+      if (Object.keys(subrelations).length) {
+          await loadRelations(loaded.entities, subrelations, options, limit, relationPath);
       }
-      const loadedEntitiesWithNestedRelations = Object.keys(subrelations).length
-          ? await loadRelationsForArray(loadedEntities, subrelations)
-          : loadedEntities;
-      const attachFn = relationship.attach(loadedEntitiesWithNestedRelations);
+      const attachFn = "otherEntity" in relationship ? relationship.attach(loaded.entities, loaded.rows) : relationship.attach(loaded.entities);
       for (const entity of entities) {
-          (entity as WithLoadedRelations<Entity, Relations>)[key as keyof WithLoadedRelations<Entity, Relations>] = attachFn(entity);
+          entity[key] = attachFn(entity);
       }
   }));
-
-  return entities as Array<WithLoadedRelations<Entity, Relations>>;
 }
 
 export async function loadRelationsForEntity<Entity, Relations extends RelationsToLoad>(
   entity: Entity,
-  relations: Relations
+  relations: Relations,
+  options: LoadRelationsOptions = {},
 ): Promise<WithLoadedRelations<Entity, Relations>> {
-  return (await loadRelationsForArray([entity], relations))[0];
+  return (await loadRelationsForArray([entity], relations, options))[0];
+}
+
+export type LazyRelations<Entity, Relations extends RelationsToLoad> = {
+  $load: <K extends keyof Relations & string>(key: K) => Promise<WithLoadedRelations<Entity, Relations>[K]>;
+};
+
+export type WithLazyRelations<Entity, Relations extends RelationsToLoad> = Entity & LazyRelations<Entity, Relations>;
+
+// Gives each entity a $load() function for the given relations. The first $load() of a relation
+// loads it for every entity in the array at once, so accessing it on siblings doesn't cause N+1 queries.
+export function withLazyRelations<Entity, Relations extends RelationsToLoad>(
+  entities: Entity[],
+  relations: Relations,
+  options: LoadRelationsOptions = {},
+): Array<WithLazyRelations<Entity, Relations>> {
+  const loads = new Map<string, Promise<unknown>>();
+  const load = (key: string) => {
+    if (! loads.has(key)) {
+      const promise = loadRelationsForArray(entities, { [key]: relations[key] }, options);
+      // Allow retrying failed loads
+      promise.catch(() => loads.delete(key));
+      loads.set(key, promise);
+    }
+    return loads.get(key)!;
+  };
+  for (const entity of entities) {
+    Object.defineProperty(entity, "$load", {
+      value: async (key: string) => {
+        await load(key);
+        return (entity as any)[key];
+      },
+      enumerable: false,
+      configurable: true,
+    });
+  }
+  return entities as Array<WithLazyRelations<Entity, Relations>>;
+}
+
+type Snapshot = {
+  entityDef: EntityDefinition;
+  values: Map<string, unknown>;
+};
+
+const snapshots = new WeakMap<object, Snapshot>();
+
+// Dates and objects are compared by value, so changing them in place is noticed too.
+// Objects that can't be serialized, like related entities referring back to the entity, are compared by reference.
+function comparableValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return `Date(${value.getTime()})`;
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return value;
+  }
+}
+
+// Remembers the fields of a loaded entity so changedFields() can tell which ones changed since.
+// Entities reused by an identity map keep their first snapshot, so their unsaved changes aren't forgotten.
+// Replaced snapshots keep the fields of the previous one, so relations attached since aren't tracked.
+export function snapshotEntity(entityDef: EntityDefinition, entity: object, options: { replace?: boolean; exclude?: string[] } = {}): void {
+  const previous = snapshots.get(entity);
+  if (previous && ! options.replace) {
+    return;
+  }
+  const fields = previous
+    ? Array.from(previous.values.keys())
+    : Object.keys(entity).filter(field => ! options.exclude?.includes(field));
+  const values = new Map(fields.map(field => [field, comparableValue((entity as any)[field])]));
+  snapshots.set(entity, { entityDef, values });
+}
+
+// The definition an entity was loaded with and its fields that changed since, or null for entities without a snapshot.
+// Fields added after loading, like relations, aren't compared.
+export function changedFields(entity: object): { entityDef: EntityDefinition; changes: Record<string, unknown> } | null {
+  const snapshot = snapshots.get(entity);
+  if (! snapshot) {
+    return null;
+  }
+  const changes: Record<string, unknown> = {};
+  for (const [field, value] of snapshot.values) {
+    const currentValue = (entity as any)[field];
+    if (! Object.is(comparableValue(currentValue), value)) {
+      changes[field] = currentValue;
+    }
+  }
+  return { entityDef: snapshot.entityDef, changes };
+}
+
+export type Timestamps = {
+  createdAt?: string;
+  updatedAt?: string;
+  // Returns the value to store, defaults to the current date. Drivers that can't bind dates, like better-sqlite3, need a string or number.
+  clock?: () => Date | string | number;
+};
+
+// Fills in the missing timestamp columns of a row to insert, or the missing updatedAt column of fields to update.
+// Timestamps given explicitly are kept, e.g. when importing rows.
+export function withTimestamps(timestamps: Timestamps | undefined, row: any, operation: "insert" | "update"): any {
+  if (! timestamps) {
+    return row;
+  }
+  const now = timestamps.clock ? timestamps.clock() : new Date();
+  const stamped = { ...row };
+  for (const column of operation === "insert" ? [timestamps.createdAt, timestamps.updatedAt] : [timestamps.updatedAt]) {
+    if (column && stamped[column] === undefined) {
+      stamped[column] = now;
+    }
+  }
+  return stamped;
+}
+
+// Columns an upsert overwrites in existing rows. Their createdAt column is kept and their updatedAt column is refreshed.
+export function upsertColumns(timestamps: Timestamps | undefined, rows: any[], update: string[] | "all"): string[] {
+  const columns = new Set(update === "all" ? rows.flatMap(row => Object.keys(row)) : update);
+  if (timestamps?.createdAt && update === "all") {
+    columns.delete(timestamps.createdAt);
+  }
+  if (timestamps?.updatedAt) {
+    columns.add(timestamps.updatedAt);
+  }
+  return Array.from(columns);
+}
+
+// Related data is given under the relation's name, e.g. { name: "Neil", books: [{ title: "Coraline" }] }
+export type InsertGraphInput<Input, Relations extends RelationsToLoad> = Input & {
+  [K in keyof Relations]?: unknown;
+};
+
+function isSameFields(fields: string[], otherFields: KeyFields | undefined): boolean {
+  return otherFields != null && fields.join() === toKeyFields(otherFields).join();
+}
+
+// Relations whose foreign key is on the entity, e.g. hasOne(bookDef, "author_id", authorDef, "id"), point at a parent entity
+export function refersToParent(entityDef: EntityDefinition & { primaryKey?: KeyFields }, relationship: BaseRelationship<any, any>): boolean {
+  return relationship.keys != null
+    && ! isSameFields(relationship.keys.localFields, entityDef.primaryKey)
+    && isSameFields(relationship.keys.otherFields, (relationship.otherEntity as { primaryKey?: KeyFields }).primaryKey);
+}
+
+// Inserts an entity with its related entities. A relation pointing at the primary key of the related entity
+// has its entity inserted first, so its key can be copied into the foreign key, the other ones are inserted after.
+export async function insertEntityGraph(
+  entityDef: EntityDefinition & { primaryKey?: KeyFields },
+  data: Record<string, unknown>,
+  relations: RelationsToLoad,
+  create: (entityDef: EntityDefinition, row: Record<string, unknown>) => Promise<any>,
+  path: string[] = [],
+): Promise<any> {
+  if (entityDef.primaryKey == null) {
+    throw new SnadiError(`Entity ${entityName(entityDef)} has no primaryKey`);
+  }
+  const row = { ...data };
+  const parents: Record<string, unknown> = {};
+  const children: Array<[key: string, relationship: BaseRelationship<any, any>, subrelations: RelationsToLoad, data: unknown]> = [];
+  for (const [key, relationshipOrNested] of Object.entries(relations)) {
+    const relationship = (Array.isArray(relationshipOrNested) ? relationshipOrNested[0] : relationshipOrNested) as BaseRelationship<any, any>;
+    const subrelations = Array.isArray(relationshipOrNested) ? relationshipOrNested[1] : {};
+    const relationPath = [...path, key];
+    const relatedData = row[key];
+    delete row[key];
+    if (relatedData === undefined) {
+      continue;
+    }
+    if (! relationship.keys) {
+      throw new SnadiError(`Relation ${relationPath.join(".")} can't be inserted, only hasOne and hasMany relations can`);
+    }
+    const { localFields, otherFields } = relationship.keys;
+    if (isSameFields(localFields, entityDef.primaryKey)) {
+      children.push([key, relationship, subrelations, relatedData]);
+    } else if (isSameFields(otherFields, (relationship.otherEntity as { primaryKey?: KeyFields }).primaryKey)) {
+      const parent = relatedData == null ? null : await insertEntityGraph(relationship.otherEntity, relatedData as Record<string, unknown>, subrelations, create, relationPath);
+      localFields.forEach((field, i) => {
+        row[field] = parent == null ? null : parent[otherFields[i]];
+      });
+      parents[key] = parent;
+    } else {
+      throw new SnadiError(`Relation ${relationPath.join(".")} can't be inserted, it doesn't join on a primary key`);
+    }
+  }
+
+  const entity = await create(entityDef, row);
+  Object.assign(entity, parents);
+  for (const [key, relationship, subrelations, relatedData] of children) {
+    const { localFields, otherFields } = relationship.keys!;
+    const inserted = [];
+    for (const childData of Array.isArray(relatedData) ? relatedData : relatedData == null ? [] : [relatedData]) {
+      const foreignKey = Object.fromEntries(otherFields.map((field, i) => [field, entity[localFields[i]]]));
+      inserted.push(await insertEntityGraph(relationship.otherEntity, { ...childData, ...foreignKey }, subrelations, create, [...path, key]));
+    }
+    entity[key] = Array.isArray(relatedData) ? inserted : inserted[0] ?? null;
+  }
+  return entity;
+}
+
+export type PageInfo = {
+  // Pass as `after` to get the next page
+  endCursor: string | null;
+  hasNextPage: boolean;
+};
+
+export type CursorPaginationOptions = {
+  first: number;
+  after?: string | null;
+  // Defaults to the primary key, which is also appended when needed to make the order unique
+  orderBy?: Array<[column: string, order: "asc" | "desc"]>;
+};
+
+export type OffsetPaginationOptions = {
+  first: number;
+  offset: number;
+  orderBy?: Array<[column: string, order: "asc" | "desc"]>;
+};
+
+export type PaginationOptions = CursorPaginationOptions | OffsetPaginationOptions;
+
+export type Page<Entity, Options extends PaginationOptions = CursorPaginationOptions> = {
+  items: Entity[];
+  pageInfo: PageInfo;
+} & (Options extends OffsetPaginationOptions ? { total: number } : {});
+
+// Without a unique order, entities with the same order by values could be skipped between pages
+export function uniqueOrderBy(
+  orderBy: Array<[column: string, order: "asc" | "desc"]> = [],
+  primaryKey?: KeyFields,
+): Array<[column: string, order: "asc" | "desc"]> {
+  const result = [...orderBy];
+  for (const field of primaryKey == null ? [] : toKeyFields(primaryKey)) {
+    if (! result.some(([column]) => column === field || column.endsWith(`.${field}`))) {
+      result.push([field, "asc"]);
+    }
+  }
+  if (result.length === 0) {
+    throw new SnadiError("Pagination needs an orderBy option or an entity definition with a primary key");
+  }
+  return result;
+}
+
+// Cursors are opaque to clients, they contain the order by values of the last row of a page
+export function encodeCursor(row: any, orderBy: Array<[column: string, order: "asc" | "desc"]>): string {
+  const values = orderBy.map(([column]) => row[column.slice(column.lastIndexOf(".") + 1)]);
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, orderBy: Array<[column: string, order: "asc" | "desc"]>): unknown[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, "base64url").toString());
+  } catch {
+    values = null;
+  }
+  if (! Array.isArray(values) || values.length !== orderBy.length) {
+    throw new SnadiError(`Invalid cursor: ${cursor}`);
+  }
+  return values;
+}
+
+// The part of an OpenTelemetry tracer that tracingListeners() uses, so @opentelemetry/api tracers can be passed as-is
+export type Tracer = {
+  startSpan: (name: string, options: { attributes: Record<string, string | number>; startTime: number }) => Span;
+};
+
+export type Span = {
+  end: (endTime: number) => void;
+};
+
+export type QueryListeners = {
+  onQuery: (event: QueryEvent) => void;
+  onRelationLoad: (event: RelationLoadEvent) => void;
+};
+
+// Emits a span for each query and relationship load, to pass as the onQuery and onRelationLoad options of an ORM.
+// Events are emitted after the fact, so the spans are started and ended at once with the times of the event.
+export function tracingListeners(tracer: Tracer): QueryListeners {
+  const emit = (name: string, durationMs: number, attributes: Record<string, string | number>) => {
+    const endTime = Date.now();
+    tracer.startSpan(name, { attributes, startTime: endTime - durationMs }).end(endTime);
+  };
+  return {
+    onQuery: (event) => emit(`snadi.query ${event.table}`, event.durationMs, {
+      "db.collection.name": event.table,
+      "db.query.text": event.sql,
+      "db.response.returned_rows": event.rowCount,
+      ...(event.relationPath == null ? {} : { "snadi.relation_path": event.relationPath }),
+      ...(event.error === undefined ? {} : { "error.type": event.error instanceof Error ? event.error.name : typeof event.error }),
+    }),
+    onRelationLoad: (event) => emit(`snadi.relation ${event.relationPath}`, event.durationMs, {
+      ...(event.table == null ? {} : { "db.collection.name": event.table }),
+      "snadi.relation_path": event.relationPath,
+      "snadi.key_count": event.keyCount,
+      "db.response.returned_rows": event.rowCount,
+    }),
+  };
 }
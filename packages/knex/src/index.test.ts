@@ -1,7 +1,12 @@
 import test, { after } from "node:test";
 import * as knexPkg from "knex";
-import { KnexEntityDefinition, KnexOrm, hasMany, hasOne } from "./index.js";
+import { Knex } from "knex";
+import { EntityNotFoundError, QueryEvent, RelationLoadError, RelationLoadEvent, RelationsToLoad, RestrictedDeleteError, StaleEntityError, StandardSchemaV1, UniqueConstraintError, ValidationError, tracingListeners } from "@snadi/core";
+import { KnexEntityDefinition, KnexOrm, belongsToMany, hasMany, hasOne, morphMany, morphTo, withCount, withExists, withMax, withSum } from "./index.js";
 import assert from "node:assert";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 
 const { knex } = knexPkg.default;
 test("tests", async (t) => {
@@ -44,6 +49,33 @@ test("tests", async (t) => {
     table.string("name");
   });
 
+  await knexClient.schema.createTable("tags", (table) => {
+    table.increments("id");
+    table.string("name");
+  });
+
+  await knexClient.schema.createTable("book_tags", (table) => {
+    table.integer("book_id");
+    table.integer("tag_id");
+    table.integer("position");
+    table.unique(["book_id", "tag_id"]);
+  });
+
+  await knexClient.schema.createTable("comments", (table) => {
+    table.increments("id");
+    table.string("body");
+    table.string("commentable_type");
+    table.integer("commentable_id");
+  });
+
+  await knexClient.schema.createTable("drafts", (table) => {
+    table.increments("id");
+    table.string("title");
+    table.integer("version").notNullable().defaultTo(1);
+    table.string("created_at");
+    table.string("updated_at");
+  });
+
   // ENTITIES
 
   const toEntityClass = <T>(theClass: new () => T, props: any): T => {
@@ -113,6 +145,63 @@ test("tests", async (t) => {
 
   const authorBooks = () => hasMany(authorDef, "id", bookDef, "author_id");
 
+  class Tag {
+    declare id: number;
+    declare name: string;
+  }
+
+  const tagDef = {
+    tableName: "tags",
+    primaryKey: "id",
+    toEntity: (data: any) => toEntityClass(Tag, data),
+    toRow: (data: Partial<Tag>) => data,
+  } satisfies KnexEntityDefinition;
+
+  const bookTags = () => belongsToMany(bookDef, "id", "book_tags", "book_id", "tag_id", tagDef, "id", { pivotColumns: ["position"] });
+
+  const tagBooks = () => belongsToMany(tagDef, "id", "book_tags", "tag_id", "book_id", bookDef, "id");
+
+  class Draft {
+    declare id: number;
+    declare title: string;
+    declare version: number;
+    declare created_at: string;
+    declare updated_at: string;
+  }
+
+  let draftClock = "2024-01-01T00:00:00.000Z";
+  const draftDef = {
+    tableName: "drafts",
+    primaryKey: "id",
+    version: "version",
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at", clock: () => draftClock },
+    toEntity: (data: any) => toEntityClass(Draft, data),
+    toRow: (data: Partial<Draft>) => data,
+  } satisfies KnexEntityDefinition;
+
+  class Comment {
+    declare id: number;
+    declare body: string;
+    declare commentable_type: string;
+    declare commentable_id: number;
+  }
+
+  const commentDef = {
+    tableName: "comments",
+    primaryKey: "id",
+    toEntity: (data: any) => toEntityClass(Comment, data),
+    toRow: (data: Partial<Comment>) => data,
+  } satisfies KnexEntityDefinition;
+
+  const commentCommentable = () => morphTo(commentDef, "commentable_type", "commentable_id", {
+    book: [bookDef, "id"],
+    author: [authorDef, "id"],
+  });
+
+  const bookComments = () => morphMany(bookDef, "id", commentDef, "commentable_type", "commentable_id", "book");
+
+  const authorComments = () => morphMany(authorDef, "id", commentDef, "commentable_type", "commentable_id", "author");
+
   // CREATE TEST DATA
 
   const createdAuthors = {
@@ -170,6 +259,32 @@ test("tests", async (t) => {
     }),
   };
 
+  const createdTags = {
+    fantasy: await orm.create(tagDef, {
+      name: "Fantasy",
+    }),
+    humour: await orm.create(tagDef, {
+      name: "Humour",
+    }),
+    unused: await orm.create(tagDef, {
+      name: "Unused",
+    }),
+  };
+
+  await knexClient("book_tags").insert([
+    { book_id: createdBooks.fragileThings.id, tag_id: createdTags.fantasy.id, position: 1 },
+    { book_id: createdBooks.theColourOfMagic.id, tag_id: createdTags.fantasy.id, position: 1 },
+    { book_id: createdBooks.theColourOfMagic.id, tag_id: createdTags.humour.id, position: 2 },
+    { book_id: createdBooks.guardsGuards.id, tag_id: createdTags.humour.id, position: 1 },
+  ]);
+
+  await orm.createMany(commentDef, [
+    { body: "Lovely short stories", commentable_type: "book", commentable_id: createdBooks.fragileThings.id },
+    { body: "Where it all began", commentable_type: "book", commentable_id: createdBooks.theColourOfMagic.id },
+    { body: "GNU Terry Pratchett", commentable_type: "author", commentable_id: createdAuthors.pratchett.id },
+    { body: "Points at nothing", commentable_type: "unknown", commentable_id: createdBooks.fragileThings.id },
+  ]);
+
   await t.test("orm.create()", async (t) => {
     const authors = await orm.getAll(authorDef);
     assert.strictEqual(authors.length, Object.keys(createdAuthors).length);
@@ -301,6 +416,204 @@ test("tests", async (t) => {
     });
   });
 
+  await t.test("Relation constraints", async (t) => {
+    await t.test("query", async (t) => {
+      const bookstores = await orm.getAll(bookstoreDef, {
+        books: hasMany(bookstoreDef, "id", bookDef, "bookstore_id", {
+          query: qb => qb.whereNot("title", "Fragile Things"),
+        })(orm),
+      });
+      const brigittesBooks = bookstores.find(b => b.id === createdBookstores.brigittesBooks.id)!;
+      assert.deepStrictEqual(brigittesBooks.books.map(b => b.title).sort(), ["Guards! Guards!", "The Last Hero"]);
+    });
+
+    await t.test("orderBy", async (t) => {
+      const authors = await orm.getAll(authorDef, {
+        books: hasMany(authorDef, "id", bookDef, "author_id", {
+          orderBy: [["title", "desc"]],
+        })(orm),
+      });
+      const pratchett = authors.find(a => a.id === createdAuthors.pratchett.id)!;
+      assert.deepStrictEqual(pratchett.books.map(b => b.title), ["The Last Hero", "The Colour of Magic", "Guards! Guards!"]);
+    });
+
+    await t.test("limit", async (t) => {
+      let queries = 0;
+      const listener = () => queries++;
+      knexClient.on("query", listener);
+      const authors = await orm.getAll(authorDef, {
+        books: hasMany(authorDef, "id", bookDef, "author_id", {
+          orderBy: [["title", "asc"]],
+          limit: 2,
+        })(orm),
+      });
+      knexClient.off("query", listener);
+      assert.strictEqual(queries, 2);
+
+      const pratchett = authors.find(a => a.id === createdAuthors.pratchett.id)!;
+      assert.deepStrictEqual(pratchett.books.map(b => b.title), ["Guards! Guards!", "The Colour of Magic"]);
+      for (const book of pratchett.books) {
+        assert.ok(book instanceof Book);
+        assert.deepStrictEqual(Object.keys(book).sort(), ["author_id", "bookstore_id", "id", "title"]);
+      }
+      const neil = authors.find(a => a.id === createdAuthors.neil.id)!;
+      assert.deepStrictEqual(neil.books.map(b => b.title), ["Fragile Things"]);
+    });
+
+    await t.test("limit without orderBy", async (t) => {
+      // Rows are numbered in primary key order, so the same rows are kept every time
+      const queries: string[] = [];
+      const queryOrm = new KnexOrm(knexClient, { onQuery: event => queries.push(event.sql) });
+      const authors = await queryOrm.getAll(authorDef, {
+        books: hasMany(authorDef, "id", bookDef, "author_id", { limit: 2 })(queryOrm),
+      });
+      assert.ok(queries.some(sql => /over ?\(partition by .+ order by /.test(sql)));
+      const pratchett = authors.find(a => a.id === createdAuthors.pratchett.id)!;
+      assert.deepStrictEqual(pratchett.books.map(b => b.id).sort((a, b) => a - b), [createdBooks.theColourOfMagic.id, createdBooks.guardsGuards.id]);
+    });
+
+    await t.test("hasOne() with orderBy", async (t) => {
+      const authors = await orm.getAll(authorDef, {
+        latestBook: hasOne(authorDef, "id", bookDef, "author_id", {
+          orderBy: [["id", "desc"]],
+        })(orm),
+      });
+      const pratchett = authors.find(a => a.id === createdAuthors.pratchett.id)!;
+      assert.strictEqual(pratchett.latestBook!.id, createdBooks.theLastHero.id);
+    });
+  });
+
+  await t.test("Aggregate relations", async (t) => {
+    let queries = 0;
+    const listener = () => queries++;
+    knexClient.on("query", listener);
+    const bookstores = await orm.getAll(bookstoreDef, {
+      bookCount: withCount(bookstoreDef, "id", bookDef, "bookstore_id")(orm),
+      bookIdSum: withSum(bookstoreDef, "id", bookDef, "bookstore_id", "id")(orm),
+      lastTitle: withMax(bookstoreDef, "id", bookDef, "bookstore_id", "title")(orm),
+      hasBooks: withExists(bookstoreDef, "id", bookDef, "bookstore_id")(orm),
+      hasFragileThings: withExists(bookstoreDef, "id", bookDef, "bookstore_id", {
+        query: qb => qb.where("title", "Fragile Things"),
+      })(orm),
+    });
+    knexClient.off("query", listener);
+    assert.strictEqual(queries, 6);
+
+    const brigittesBooks = bookstores.find(b => b.id === createdBookstores.brigittesBooks.id)!;
+    const bookCount: number = brigittesBooks.bookCount;
+    assert.strictEqual(bookCount, 3);
+    assert.strictEqual(brigittesBooks.bookIdSum, createdBooks.fragileThings.id + createdBooks.guardsGuards.id + createdBooks.theLastHero.id);
+    assert.strictEqual(brigittesBooks.lastTitle, "The Last Hero");
+    assert.strictEqual(brigittesBooks.hasBooks, true);
+    assert.strictEqual(brigittesBooks.hasFragileThings, true);
+
+    const noBooks = bookstores.find(b => b.id === createdBookstores.noBooks.id)!;
+    assert.strictEqual(noBooks.bookCount, 0);
+    assert.strictEqual(noBooks.bookIdSum, 0);
+    assert.strictEqual(noBooks.lastTitle, null);
+    assert.strictEqual(noBooks.hasBooks, false);
+    assert.strictEqual(noBooks.hasFragileThings, false);
+  });
+
+  await t.test("m:n relations", async (t) => {
+    await t.test("orm.getAll()", async (t) => {
+      const books = await orm.getAll(bookDef, {
+        tags: bookTags()(orm),
+      });
+      assert.strictEqual(books.length, Object.keys(createdBooks).length);
+      const tagNamesByTitle = Object.fromEntries(books.map(b => [b.title, b.tags.map(tag => tag.name).sort()]));
+      assert.deepStrictEqual(tagNamesByTitle, {
+        "Fragile Things": ["Fantasy"],
+        "The Colour of Magic": ["Fantasy", "Humour"],
+        "Guards! Guards!": ["Humour"],
+        "The Last Hero": [],
+      });
+      for (const book of books) {
+        for (const tag of book.tags) {
+          assert.ok(tag instanceof Tag);
+          assert.strictEqual(typeof tag.pivot.position, "number");
+          assert.ok(! ("book_id" in tag));
+        }
+      }
+    });
+
+    await t.test("orm.getOne()", async (t) => {
+      const book = await orm.getOne(bookDef, qb => qb.where("id", createdBooks.theColourOfMagic.id), {
+        tags: bookTags()(orm),
+      });
+      assert.ok(book instanceof Book);
+      const positions = Object.fromEntries(book.tags.map(tag => [tag.name, tag.pivot.position]));
+      assert.deepStrictEqual(positions, { Fantasy: 1, Humour: 2 });
+    });
+
+    await t.test("nested", async (t) => {
+      const tags = await orm.getAll(tagDef, {
+        books: [tagBooks()(orm), {
+          author: bookAuthor()(orm),
+        }],
+      });
+      assert.strictEqual(tags.length, Object.keys(createdTags).length);
+      const unused = tags.find(tag => tag.id === createdTags.unused.id)!;
+      assert.deepStrictEqual(unused.books, []);
+      const humour = tags.find(tag => tag.id === createdTags.humour.id)!;
+      assert.strictEqual(humour.books.length, 2);
+      for (const book of humour.books) {
+        assert.ok(book instanceof Book);
+        assert.ok(book.author instanceof Author);
+        assert.strictEqual(book.author.name, "Terry Pratchett");
+      }
+    });
+  });
+
+  await t.test("Polymorphic relations", async (t) => {
+    await t.test("morphTo()", async (t) => {
+      let queries = 0;
+      const listener = () => queries++;
+      knexClient.on("query", listener);
+      const comments = await orm.getAll(commentDef, {
+        commentable: commentCommentable()(orm),
+      });
+      knexClient.off("query", listener);
+      assert.strictEqual(queries, 3);
+
+      const commentablesByBody = Object.fromEntries(comments.map(c => [c.body, c.commentable]));
+      assert.ok(commentablesByBody["Lovely short stories"] instanceof Book);
+      assert.strictEqual(commentablesByBody["Lovely short stories"].id, createdBooks.fragileThings.id);
+      assert.ok(commentablesByBody["Where it all began"] instanceof Book);
+      assert.strictEqual(commentablesByBody["Where it all began"].id, createdBooks.theColourOfMagic.id);
+      assert.ok(commentablesByBody["GNU Terry Pratchett"] instanceof Author);
+      assert.strictEqual(commentablesByBody["GNU Terry Pratchett"].id, createdAuthors.pratchett.id);
+      assert.strictEqual(commentablesByBody["Points at nothing"], null);
+    });
+
+    await t.test("morphTo() with nested relations", async (t) => {
+      const comment = await orm.getOne(commentDef, qb => qb.where("body", "Where it all began"), {
+        commentable: [commentCommentable()(orm), {
+          comments: bookComments()(orm),
+        }],
+      });
+      assert.ok(comment != null);
+      assert.ok(comment.commentable instanceof Book);
+      assert.deepStrictEqual(comment.commentable.comments.map(c => c.body), ["Where it all began"]);
+    });
+
+    await t.test("morphMany()", async (t) => {
+      const authors = await orm.getAll(authorDef, {
+        comments: authorComments()(orm),
+        books: [authorBooks()(orm), {
+          comments: bookComments()(orm),
+        }],
+      });
+      const pratchett = authors.find(a => a.id === createdAuthors.pratchett.id)!;
+      assert.deepStrictEqual(pratchett.comments.map(c => c.body), ["GNU Terry Pratchett"]);
+      const colourOfMagic = pratchett.books.find(b => b.id === createdBooks.theColourOfMagic.id)!;
+      assert.deepStrictEqual(colourOfMagic.comments.map(c => c.body), ["Where it all began"]);
+      const neil = authors.find(a => a.id === createdAuthors.neil.id)!;
+      assert.deepStrictEqual(neil.comments, []);
+      assert.deepStrictEqual(neil.books[0].comments.map(c => c.body), ["Lovely short stories"]);
+    });
+  });
+
   await t.test("Nested relations", async (t) => {
     await t.test("orm.getAll()", async (t) => {
       const bookstores = await orm.getAll(bookstoreDef, {
@@ -393,6 +706,995 @@ test("tests", async (t) => {
     knexClient.off("query", listener);
   });
 
+  await t.test("Batched relation loading", async (t) => {
+    const requestOrm = orm.withBatching();
+    const bookRows = await knexClient("books").select();
+
+    // Like field resolvers, each book loads its relations separately in the same tick
+    let queries = 0;
+    const listener = () => queries++;
+    knexClient.on("query", listener);
+    const books = await Promise.all(bookRows.map(row => requestOrm.loadOne(bookDef, row, {
+      author: [bookAuthor()(requestOrm), {
+        books: authorBooks()(requestOrm),
+      }],
+    })));
+    knexClient.off("query", listener);
+    assert.strictEqual(queries, 2);
+
+    for (const book of books) {
+      assert.ok(book instanceof Book);
+      assert.ok(book.author instanceof Author);
+      assert.strictEqual(book.author.id, book.author_id);
+      assert.ok(book.author.books.length > 0);
+      assert.ok(book.author.books.every(b => b.author_id === book.author_id));
+    }
+  });
+
+  await t.test("Lazy relations", async (t) => {
+    await t.test("orm.getManyLazy()", async (t) => {
+      let queries = 0;
+      const listener = () => queries++;
+      knexClient.on("query", listener);
+      const books = await orm.getManyLazy(bookDef, qb => qb.orderBy("id"), {
+        author: [bookAuthor()(orm), {
+          books: authorBooks()(orm),
+        }],
+        details: bookBookDetails()(orm),
+      });
+      assert.strictEqual(queries, 1);
+      assert.ok(! ("author" in books[0]));
+
+      const authors = await Promise.all(books.map(book => book.$load("author")));
+      assert.strictEqual(queries, 3);
+      for (const [i, author] of authors.entries()) {
+        assert.ok(author instanceof Author);
+        assert.strictEqual(author.id, books[i].author_id);
+        assert.ok(author.books.every(b => b.author_id === author.id));
+      }
+
+      await books[0].$load("author");
+      assert.strictEqual(queries, 3);
+
+      const details = await books[0].$load("details");
+      assert.strictEqual(queries, 4);
+      assert.ok(details instanceof BookDetails);
+      knexClient.off("query", listener);
+    });
+
+    await t.test("orm.getOneLazy()", async (t) => {
+      const book = await orm.getOneLazy(bookDef, qb => qb.where("id", createdBooks.fragileThings.id), {
+        author: bookAuthor()(orm),
+      });
+      assert.ok(book instanceof Book);
+      const author = await book.$load("author");
+      assert.strictEqual(author!.id, createdAuthors.neil.id);
+
+      const missing = await orm.getOneLazy(bookDef, qb => qb.where("id", -1), {
+        author: bookAuthor()(orm),
+      });
+      assert.strictEqual(missing, null);
+    });
+  });
+
+  await t.test("Identity map", async (t) => {
+    const sessionOrm = orm.withIdentityMap();
+    const authors = await sessionOrm.getAll(authorDef, {
+      books: [authorBooks()(sessionOrm), {
+        author: bookAuthor()(sessionOrm),
+      }],
+      comments: authorComments()(sessionOrm),
+    });
+    for (const author of authors) {
+      for (const book of author.books) {
+        assert.strictEqual(book.author, author);
+      }
+    }
+
+    const books = await sessionOrm.getAll(bookDef);
+    const pratchett = authors.find(a => a.id === createdAuthors.pratchett.id)!;
+    const colourOfMagic = books.find(b => b.id === createdBooks.theColourOfMagic.id)!;
+    assert.ok(pratchett.books.some(book => book === colourOfMagic));
+
+    const samePratchett = await sessionOrm.getOne(authorDef, qb => qb.where("id", createdAuthors.pratchett.id));
+    assert.strictEqual(samePratchett, pratchett);
+
+    const otherPratchett = await orm.getOne(authorDef, qb => qb.where("id", createdAuthors.pratchett.id));
+    assert.notStrictEqual(otherPratchett, pratchett);
+
+    // Tags shared by several books are attached to each of them, with the pivot fields of their own pivot row
+    const taggedBooks = await sessionOrm.findMany(bookDef, [createdBooks.fragileThings.id, createdBooks.theColourOfMagic.id], {
+      tags: bookTags()(sessionOrm),
+      plainTags: belongsToMany(bookDef, "id", "book_tags", "book_id", "tag_id", tagDef, "id")(sessionOrm),
+    });
+    assert.deepStrictEqual(taggedBooks.map(book => book.tags.map(tag => [tag.id, tag.pivot.position]).sort()), [
+      [[createdTags.fantasy.id, 1]],
+      [[createdTags.fantasy.id, 1], [createdTags.humour.id, 2]],
+    ]);
+    assert.notStrictEqual(taggedBooks[0].tags[0], taggedBooks[1].tags.find(tag => tag.id === createdTags.fantasy.id));
+    // Without pivot fields, related entities are reused
+    const fantasy = await sessionOrm.find(tagDef, createdTags.fantasy.id);
+    assert.strictEqual(taggedBooks[0].plainTags[0], fantasy);
+    assert.strictEqual(taggedBooks[1].plainTags.find(tag => tag.id === createdTags.fantasy.id), fantasy);
+    assert.strictEqual(taggedBooks[1].plainTags.length, 2);
+
+    // Shared entities are attached by the pivot rows of each load, not the ones of earlier loads
+    const plainTags = belongsToMany(bookDef, "id", "book_tags", "book_id", "tag_id", tagDef, "id")(sessionOrm);
+    const taggedBookIds = [createdBooks.fragileThings.id, createdBooks.theColourOfMagic.id];
+    await sessionOrm.findMany(bookDef, taggedBookIds, { plainTags });
+    await orm.detach(createdBooks.fragileThings, plainTags, [createdTags.fantasy.id]);
+    try {
+      const [untagged, tagged] = await sessionOrm.findMany(bookDef, taggedBookIds, { plainTags });
+      assert.deepStrictEqual(untagged.plainTags, []);
+      assert.ok(tagged.plainTags.includes(fantasy!));
+    } finally {
+      await orm.attach(createdBooks.fragileThings, plainTags, [createdTags.fantasy.id], { position: 1 });
+    }
+
+    const comments = await sessionOrm.getMany(commentDef, qb => qb.where("commentable_type", "book"), {
+      commentable: commentCommentable()(sessionOrm),
+    });
+    assert.ok(comments.length > 0);
+    for (const comment of comments) {
+      assert.strictEqual(comment.commentable, books.find(book => book.id === comment.commentable_id));
+    }
+  });
+
+  await t.test("Key chunking", async (t) => {
+    const relations = (orm: KnexOrm) => ({
+      author: bookAuthor()(orm),
+      tags: belongsToMany(bookDef, "id", "book_tags", "book_id", "tag_id", tagDef, "id", { chunkSize: 1 })(orm),
+      otherBooks: hasMany(bookDef, "author_id", bookDef, "author_id", { orderBy: [["id", "desc"]], limit: 2 })(orm),
+      comments: bookComments()(orm),
+      bookstoreBookCount: withCount(bookDef, "bookstore_id", bookDef, "bookstore_id")(orm),
+    });
+    const books = await orm.getMany(bookDef, qb => qb.orderBy("id"), relations(orm));
+
+    let queries = 0;
+    const listener = () => queries++;
+    const chunkedOrm = new KnexOrm(knexClient, { keyChunkSize: 2, maxConcurrency: 1 });
+    knexClient.on("query", listener);
+    const chunkedBooks = await chunkedOrm.getMany(bookDef, qb => qb.orderBy("id"), relations(chunkedOrm));
+    knexClient.off("query", listener);
+
+    assert.ok(queries > 6);
+    assert.deepStrictEqual(chunkedBooks, books);
+    assert.throws(() => new KnexOrm(knexClient, { maxConcurrency: 0 }), { name: "SnadiError" });
+  });
+
+  await t.test("Composite keys", async (t) => {
+    await knexClient.schema.createTable("orders", (table) => {
+      table.integer("tenant_id");
+      table.integer("id");
+      table.string("customer");
+      table.primary(["tenant_id", "id"]);
+    });
+
+    await knexClient.schema.createTable("order_lines", (table) => {
+      table.integer("tenant_id");
+      table.integer("order_id");
+      table.integer("line_no");
+      table.string("product");
+      table.primary(["tenant_id", "order_id", "line_no"]);
+    });
+
+    class Order {
+      declare tenant_id: number;
+      declare id: number;
+      declare customer: string;
+    }
+
+    const orderDef = {
+      tableName: "orders",
+      primaryKey: ["tenant_id", "id"] as const,
+      toEntity: (data: any) => toEntityClass(Order, data),
+      toRow: (data: Partial<Order>) => data,
+    } satisfies KnexEntityDefinition;
+
+    class OrderLine {
+      declare tenant_id: number;
+      declare order_id: number;
+      declare line_no: number;
+      declare product: string;
+    }
+
+    const orderLineDef = {
+      tableName: "order_lines",
+      primaryKey: ["tenant_id", "order_id", "line_no"],
+      toEntity: (data: any) => toEntityClass(OrderLine, data),
+      toRow: (data: Partial<OrderLine>) => data,
+    } satisfies KnexEntityDefinition;
+
+    const orderLines = () => hasMany(orderDef, ["tenant_id", "id"], orderLineDef, ["tenant_id", "order_id"], { limit: 2 });
+    const lineOrder = () => hasOne(orderLineDef, ["tenant_id", "order_id"], orderDef, ["tenant_id", "id"]);
+    const orderLineCount = () => withCount(orderDef, ["tenant_id", "id"], orderLineDef, ["tenant_id", "order_id"]);
+
+    // Both tenants have an order with id 1
+    const firstOrder = await orm.create(orderDef, { tenant_id: 1, id: 1, customer: "Alice" });
+    assert.strictEqual(firstOrder.customer, "Alice");
+    await orm.createMany(orderDef, [
+      { tenant_id: 2, id: 1, customer: "Bob" },
+      { tenant_id: 2, id: 2, customer: "Carol" },
+    ]);
+    await orm.createMany(orderLineDef, [
+      { tenant_id: 1, order_id: 1, line_no: 1, product: "Good Omens" },
+      { tenant_id: 2, order_id: 1, line_no: 1, product: "Mort" },
+      { tenant_id: 2, order_id: 1, line_no: 2, product: "Sourcery" },
+      { tenant_id: 2, order_id: 1, line_no: 3, product: "Eric" },
+    ]);
+
+    const assertOrders = async () => {
+      const [alice, bob, carol] = await orm.getMany(orderDef, qb => qb.orderBy(["tenant_id", "id"]), {
+        lines: [orderLines()(orm), {
+          order: lineOrder()(orm),
+        }],
+        lineCount: orderLineCount()(orm),
+      });
+      assert.deepStrictEqual(alice.lines.map(line => line.product), ["Good Omens"]);
+      assert.deepStrictEqual(bob.lines.map(line => line.product), ["Mort", "Sourcery"]);
+      assert.deepStrictEqual(carol.lines, []);
+      assert.strictEqual(bob.lines[0].order!.customer, "Bob");
+      assert.deepStrictEqual([alice.lineCount, bob.lineCount, carol.lineCount], [1, 3, 0]);
+    };
+
+    let queries: string[] = [];
+    const listener = (query: { sql: string }) => queries.push(query.sql);
+    knexClient.on("query", listener);
+    await assertOrders();
+    assert.ok(queries.slice(1).every(sql => sql.includes("(`order_lines`.`tenant_id`, `order_lines`.`order_id`) in") || sql.includes("(`orders`.`tenant_id`, `orders`.`id`) in")));
+
+    // Dialects without row values get an OR of ANDs instead
+    queries = [];
+    (knexClient.client as any).dialect = "mssql";
+    try {
+      await assertOrders();
+    } finally {
+      delete (knexClient.client as any).dialect;
+    }
+    knexClient.off("query", listener);
+    assert.ok(queries.slice(1).every(sql => ! sql.includes(") in (")));
+
+    const bob = await orm.find(orderDef, [2, 1], { lines: orderLines()(orm) });
+    assert.strictEqual(bob!.customer, "Bob");
+    assert.strictEqual(bob!.lines.length, 2);
+    const orders = await orm.findMany(orderDef, [[2, 2], [1, 2], [1, 1]]);
+    assert.deepStrictEqual(orders.map(order => order.customer), ["Carol", "Alice"]);
+  });
+
+  await t.test("Primary key lookups", async (t) => {
+    const book = await orm.find(bookDef, createdBooks.guardsGuards.id, { author: bookAuthor()(orm) });
+    assert.strictEqual(book!.title, "Guards! Guards!");
+    assert.strictEqual(book!.author!.name, "Terry Pratchett");
+    assert.strictEqual(await orm.find(bookDef, 0), null);
+
+    const ids = [createdBooks.theLastHero.id, 0, createdBooks.fragileThings.id, createdBooks.theLastHero.id];
+    const books = await orm.findMany(bookDef, ids, { author: bookAuthor()(orm) });
+    assert.deepStrictEqual(books.map(book => book.title), ["The Last Hero", "Fragile Things", "The Last Hero"]);
+    assert.strictEqual(books[0].author!.name, "Terry Pratchett");
+    assert.deepStrictEqual(await orm.findMany(bookDef, []), []);
+
+    const neil = await orm.findOrFail(authorDef, createdAuthors.neil.id);
+    assert.strictEqual(neil.name, "Neil Gaiman");
+    await assert.rejects(orm.findOrFail(authorDef, 0), (error) => {
+      assert.ok(error instanceof EntityNotFoundError);
+      assert.strictEqual(error.entity, "authors");
+      assert.strictEqual(error.key, 0);
+      return true;
+    });
+    const pratchett = await orm.getOneOrFail(authorDef, qb => qb.where("name", "Terry Pratchett"), { books: authorBooks()(orm) });
+    assert.strictEqual(pratchett.books.length, 3);
+    await assert.rejects(orm.getOneOrFail(authorDef, qb => qb.where("name", "Nobody")), { name: "EntityNotFoundError", message: "No authors found" });
+  });
+
+  await t.test("orm.paginate()", async (t) => {
+    await t.test("cursor", async (t) => {
+      const getPage = (after: string | null) => orm.paginate(bookDef, qb => qb.whereNot("title", "Fragile Things"), {
+        first: 2,
+        after,
+        orderBy: [["title", "desc"]],
+      }, {
+        author: bookAuthor()(orm),
+      });
+      const firstPage = await getPage(null);
+      assert.strictEqual(firstPage.pageInfo.hasNextPage, true);
+      const secondPage = await getPage(firstPage.pageInfo.endCursor);
+      assert.strictEqual(secondPage.pageInfo.hasNextPage, false);
+
+      const books = [...firstPage.items, ...secondPage.items];
+      assert.deepStrictEqual(books.map(book => book.title), ["The Last Hero", "The Colour of Magic", "Guards! Guards!"]);
+      for (const book of books) {
+        assert.strictEqual(book.author!.id, book.author_id);
+      }
+
+      // The primary key makes the order unique, so books with the same author aren't skipped
+      const byAuthor = await orm.paginate(bookDef, qb => qb, { first: 2, orderBy: [["author_id", "asc"]] });
+      const byAuthorNext = await orm.paginate(bookDef, qb => qb, { first: 2, after: byAuthor.pageInfo.endCursor, orderBy: [["author_id", "asc"]] });
+      const ids = [...byAuthor.items, ...byAuthorNext.items].map(book => book.id);
+      assert.deepStrictEqual(ids, [createdBooks.fragileThings.id, createdBooks.theColourOfMagic.id, createdBooks.guardsGuards.id, createdBooks.theLastHero.id]);
+      assert.strictEqual(byAuthorNext.pageInfo.hasNextPage, false);
+
+      await assert.rejects(orm.paginate(bookDef, qb => qb, { first: 2, after: "nonsense" }));
+
+      // NULL titles sort first on SQLite, pages after a NULL cursor value still reach the titled books
+      const untitledIds: number[] = (await knexClient("books").insert([{ title: null }, { title: null }]).returning("id")).map(row => row.id);
+      const bookIds = [...untitledIds, createdBooks.guardsGuards.id, createdBooks.theLastHero.id];
+      const pageThrough = async (order: "asc" | "desc") => {
+        const books = [];
+        let after: string | null = null;
+        do {
+          const page: any = await orm.paginate(bookDef, qb => qb.whereIn("id", bookIds), { first: 1, after, orderBy: [["title", order]] });
+          books.push(...page.items);
+          after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+        } while (after != null);
+        return books.map(book => book.id);
+      };
+      assert.deepStrictEqual(await pageThrough("asc"), bookIds);
+      assert.deepStrictEqual(await pageThrough("desc"), [createdBooks.theLastHero.id, createdBooks.guardsGuards.id, ...untitledIds]);
+      await knexClient("books").whereIn("id", untitledIds).delete();
+    });
+
+    await t.test("offset", async (t) => {
+      let queries = 0;
+      const listener = () => queries++;
+      knexClient.on("query", listener);
+      const page = await orm.paginate(bookDef, qb => qb.where("author_id", createdAuthors.pratchett.id), {
+        first: 2,
+        offset: 2,
+        orderBy: [["title", "asc"]],
+      }, {
+        author: bookAuthor()(orm),
+      });
+      knexClient.off("query", listener);
+
+      // Count, page and author queries
+      assert.strictEqual(queries, 3);
+      assert.strictEqual(page.total, 3);
+      assert.deepStrictEqual(page.items.map(book => book.title), ["The Last Hero"]);
+      assert.strictEqual(page.items[0].author!.id, createdAuthors.pratchett.id);
+      assert.strictEqual(page.pageInfo.hasNextPage, false);
+    });
+  });
+
+  await t.test("orm.stream()", async (t) => {
+    // Relations are loaded while the stream is still open, so they need a second connection
+    const filename = path.join(os.tmpdir(), `snadi-knex-stream-${process.pid}.sqlite`);
+    const streamClient = knex({
+      client: "sqlite3",
+      connection: { filename },
+      useNullAsDefault: true,
+      pool: { min: 1, max: 2 },
+    });
+    try {
+      await streamClient.schema.createTable("authors", (table) => {
+        table.increments("id");
+        table.string("name");
+      });
+      await streamClient.schema.createTable("books", (table) => {
+        table.increments("id");
+        table.string("title");
+        table.integer("author_id");
+      });
+      const names = ["Neil Gaiman", "Terry Pratchett", "Ursula K. Le Guin", "Diana Wynne Jones", "Douglas Adams"];
+      await streamClient("authors").insert(names.map(name => ({ name })));
+      await streamClient("books").insert(names.flatMap((name, i) => [
+        { title: `${name} 1`, author_id: i + 1 },
+        { title: `${name} 2`, author_id: i + 1 },
+      ]));
+
+      const streamOrm = new KnexOrm(streamClient);
+      let queries = 0;
+      const listener = () => queries++;
+      streamClient.on("query", listener);
+      const authors = [];
+      for await (const author of streamOrm.stream(authorDef, qb => qb.orderBy("id"), { books: authorBooks()(streamOrm) }, { chunkSize: 2 })) {
+        authors.push(author);
+      }
+      streamClient.off("query", listener);
+
+      // One query for the stream, and one relation query for each chunk of 2 authors
+      assert.strictEqual(queries, 4);
+      assert.deepStrictEqual(authors.map(author => author.name), names);
+      for (const author of authors) {
+        assert.ok(author instanceof Author);
+        assert.deepStrictEqual(author.books.map(book => book.title), [`${author.name} 1`, `${author.name} 2`]);
+      }
+    } finally {
+      await streamClient.destroy();
+      await fs.rm(filename, { force: true });
+    }
+
+    // With a pool of one connection, relations could only load once the acquire timeout is over, so stream() fails right away
+    const relationStream = orm.stream(authorDef, qb => qb, { books: authorBooks()(orm) })[Symbol.asyncIterator]();
+    await assert.rejects(relationStream.next(), {
+      name: "SnadiError",
+      message: "stream() loads relations on a second connection while streaming, but the connection pool has at most 1",
+    });
+    // Streams without relations only need their own connection
+    const streamedIds = [];
+    for await (const author of orm.stream(authorDef, qb => qb.orderBy("id"))) {
+      streamedIds.push(author.id);
+    }
+    assert.deepStrictEqual(streamedIds, [createdAuthors.neil.id, createdAuthors.pratchett.id]);
+    // Transactions have a single connection, which is busy with the stream
+    await orm.transaction(async (trxOrm) => {
+      await assert.rejects(trxOrm.stream(authorDef, qb => qb, { books: authorBooks()(trxOrm) })[Symbol.asyncIterator]().next(), {
+        name: "SnadiError",
+        message: "stream() can't load relations within a transaction, its connection is busy streaming",
+      });
+    });
+  });
+
+  await t.test("Lifecycle hooks", async (t) => {
+    await knexClient.schema.createTable("notes", (table) => {
+      table.increments("id");
+      table.string("body");
+      table.integer("book_id");
+    });
+
+    await knexClient.schema.createTable("note_events", (table) => {
+      table.increments("id");
+      table.string("event");
+      table.integer("in_transaction");
+    });
+
+    class Note {
+      declare id: number;
+      declare body: string;
+      declare book_id: number;
+      declare loaded: boolean;
+    }
+
+    const events: string[] = [];
+    // Hooks write their side effects through the ORM they receive, so they end up in the same transaction
+    const logEvent = async (event: string, orm: KnexOrm) => {
+      events.push(event);
+      await orm.knex("note_events").insert({ event, in_transaction: orm.knex.isTransaction ? 1 : 0 });
+    };
+
+    const noteDef = {
+      tableName: "notes",
+      primaryKey: "id",
+      toEntity: (data: any) => toEntityClass(Note, data),
+      toRow: (data: Partial<Note>) => data,
+      beforeInsert: async (row: Partial<Note>, orm: KnexOrm) => {
+        row.body = row.body!.trim();
+        await logEvent("beforeInsert", orm);
+      },
+      afterInsert: (row: Note, orm: KnexOrm) => logEvent(`afterInsert ${row.body}`, orm),
+      beforeUpdate: (fields: Partial<Note>, builder: any, orm: KnexOrm) => logEvent("beforeUpdate", orm),
+      afterUpdate: (fields: Partial<Note>, builder: any, orm: KnexOrm) => logEvent("afterUpdate", orm),
+      beforeDelete: async (builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder, orm: KnexOrm) => {
+        const notes = await orm.getMany(noteDef, builder);
+        await logEvent(`beforeDelete ${notes.map(note => note.id).join(",")}`, orm);
+      },
+      afterDelete: (builder: any, orm: KnexOrm) => logEvent("afterDelete", orm),
+      afterLoad: (note: Note) => {
+        note.loaded = true;
+      },
+    } satisfies KnexEntityDefinition;
+
+    const bookNotes = () => hasMany(bookDef, "id", noteDef, "book_id");
+
+    const note = (await orm.create(noteDef, { body: "  Read again  ", book_id: createdBooks.guardsGuards.id }))!;
+    assert.strictEqual(note.body, "Read again");
+    assert.strictEqual(note.loaded, true);
+    await orm.createMany(noteDef, [{ body: "Lend to Brigitte", book_id: createdBooks.guardsGuards.id }]);
+
+    const book = await orm.getOne(bookDef, qb => qb.where("id", createdBooks.guardsGuards.id), { notes: bookNotes()(orm) });
+    assert.strictEqual(book!.notes.length, 2);
+    assert.ok(book!.notes.every(note => note.loaded));
+
+    await orm.transaction(async (trxOrm) => {
+      await trxOrm.update(noteDef, qb => qb.where("id", note.id), { body: "Read again soon" });
+      await trxOrm.delete(noteDef, qb => qb.where("id", note.id));
+    });
+
+    assert.deepStrictEqual(events, [
+      "beforeInsert",
+      "afterInsert Read again",
+      "beforeInsert",
+      "afterInsert Lend to Brigitte",
+      "beforeUpdate",
+      "afterUpdate",
+      `beforeDelete ${note.id}`,
+      "afterDelete",
+    ]);
+    const loggedEvents = await knexClient("note_events").orderBy("id");
+    assert.deepStrictEqual(loggedEvents.map(event => event.in_transaction), [0, 0, 0, 0, 1, 1, 1, 1]);
+  });
+
+  await t.test("Soft deletes", async (t) => {
+    await knexClient.schema.createTable("reviews", (table) => {
+      table.increments("id");
+      table.string("body");
+      table.integer("book_id");
+      table.datetime("deleted_at");
+    });
+    // Only one live review can have the same body
+    await knexClient.raw("create unique index reviews_live_body on reviews (body) where deleted_at is null");
+
+    class Review {
+      declare id: number;
+      declare body: string;
+      declare book_id: number;
+      declare deleted_at: Date | null;
+    }
+
+    const reviewDef = {
+      tableName: "reviews",
+      primaryKey: "id",
+      softDelete: { column: "deleted_at" },
+      toEntity: (data: any) => toEntityClass(Review, data),
+      toRow: (data: Partial<Review>) => data,
+    } satisfies KnexEntityDefinition;
+
+    const bookReviews = () => hasMany(bookDef, "id", reviewDef, "book_id");
+
+    const bookId = createdBooks.theLastHero.id;
+    const reviews = {
+      great: (await orm.create(reviewDef, { body: "Great", book_id: bookId }))!,
+      meh: (await orm.create(reviewDef, { body: "Meh", book_id: bookId }))!,
+    };
+
+    await orm.delete(reviewDef, qb => qb.where("id", reviews.meh.id));
+
+    const trashedRow = await knexClient("reviews").where("id", reviews.meh.id).first();
+    assert.notStrictEqual(trashedRow.deleted_at, null);
+    assert.deepStrictEqual((await orm.getAll(reviewDef)).map(review => review.body), ["Great"]);
+    assert.strictEqual(await orm.getOne(reviewDef, qb => qb.where("id", reviews.meh.id)), null);
+    const book = await orm.getOne(bookDef, qb => qb.where("id", bookId), { reviews: bookReviews()(orm) });
+    assert.deepStrictEqual(book!.reviews.map(review => review.body), ["Great"]);
+
+    const trashedOrm = orm.withTrashed();
+    assert.deepStrictEqual((await trashedOrm.getAll(reviewDef)).map(review => review.body), ["Great", "Meh"]);
+    const bookWithTrashed = await trashedOrm.getOne(bookDef, qb => qb.where("id", bookId), { reviews: bookReviews()(trashedOrm) });
+    assert.deepStrictEqual(bookWithTrashed!.reviews.map(review => review.body), ["Great", "Meh"]);
+    assert.deepStrictEqual((await orm.onlyTrashed().getAll(reviewDef)).map(review => review.body), ["Meh"]);
+
+    await orm.restore(reviewDef, qb => qb.where("id", reviews.meh.id));
+    assert.deepStrictEqual((await orm.getAll(reviewDef)).map(review => review.body), ["Great", "Meh"]);
+
+    await orm.delete(reviewDef, qb => qb.where("id", reviews.meh.id));
+    const newMeh = await orm.create(reviewDef, { body: "Meh", book_id: bookId });
+    await assert.rejects(orm.restore(reviewDef, qb => qb.where("id", reviews.meh.id)), (error) => {
+      assert.ok(error instanceof UniqueConstraintError);
+      assert.strictEqual(error.entity, "reviews");
+      return true;
+    });
+    await orm.forceDelete(reviewDef, qb => qb.where("id", newMeh.id));
+
+    await orm.delete(reviewDef, qb => qb.where("id", reviews.meh.id));
+    await orm.forceDelete(reviewDef, qb => qb.where("id", reviews.meh.id));
+    assert.deepStrictEqual((await knexClient("reviews").select("body")).map(row => row.body), ["Great"]);
+
+    await assert.rejects(orm.restore(bookDef, qb => qb), /has no softDelete column/);
+  });
+
+  await t.test("Schema validation", async (t) => {
+    // A minimal Standard Schema implementation that requires string fields
+    const stringFields = (...fields: string[]): StandardSchemaV1 => ({
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value: any) => {
+          const issues = fields
+            .filter(field => typeof value[field] !== "string")
+            .map(field => ({ message: "Expected a string", path: [field] }));
+          return issues.length ? { issues } : { value };
+        },
+      },
+    });
+
+    const validatedBookDef = {
+      ...bookDef,
+      schema: stringFields("title"),
+      insertSchema: stringFields("title"),
+      updateSchema: stringFields("title"),
+    } satisfies KnexEntityDefinition;
+
+    const books = await orm.getAll(validatedBookDef);
+    assert.strictEqual(books.length, Object.keys(createdBooks).length);
+    // Pivot aliases are left out of validation
+    const fantasy = await orm.getOne(tagDef, qb => qb.where("id", createdTags.fantasy.id), {
+      books: belongsToMany(tagDef, "id", "book_tags", "tag_id", "book_id", validatedBookDef, "id", { pivotColumns: ["position"] })(orm),
+    });
+    assert.deepStrictEqual(fantasy!.books.map(book => book.pivot), [{ position: 1 }, { position: 1 }]);
+
+    await assert.rejects(orm.create(validatedBookDef, { title: 42 as any }), { entity: "books", relationPath: null, field: "title" });
+    await assert.rejects(orm.update(validatedBookDef, qb => qb.where("id", 0), {}), { field: "title" });
+
+    await knexClient("books").insert({ title: null, author_id: createdAuthors.neil.id });
+    try {
+      await assert.rejects(
+        orm.getMany(authorDef, qb => qb.where("id", createdAuthors.neil.id), {
+          books: hasMany(authorDef, "id", validatedBookDef, "author_id")(orm),
+        }),
+        (error) => {
+          assert.ok(error instanceof ValidationError);
+          assert.strictEqual(error.message, "Invalid books (relation books, field title): Expected a string");
+          return true;
+        },
+      );
+      await assert.rejects(orm.getAll(validatedBookDef), { relationPath: null, field: "title" });
+    } finally {
+      await knexClient("books").whereNull("title").delete();
+    }
+  });
+
+  await t.test("Errors", async (t) => {
+    await assert.rejects(orm.create(bookDetailsDef, { book_id: createdBooks.fragileThings.id, isbn: "0-06-051522-8" }), (error) => {
+      assert.ok(error instanceof UniqueConstraintError);
+      assert.strictEqual(error.entity, "book_details");
+      return true;
+    });
+
+    await assert.rejects(
+      orm.getMany(authorDef, qb => qb.where("id", createdAuthors.pratchett.id), {
+        books: [authorBooks()(orm), {
+          details: hasOne(bookDef, "id", bookDetailsDef, "book_id", { query: qb => qb.where("no_such_column", 1) })(orm),
+        }],
+      }),
+      (error) => {
+        assert.ok(error instanceof RelationLoadError);
+        assert.strictEqual(error.relationPath, "books.details");
+        return true;
+      },
+    );
+
+    const failingBookDef = {
+      ...bookDef,
+      toEntity: (data: Book) => {
+        if (data.title === "Guards! Guards!") {
+          throw new Error("No guards");
+        }
+        return bookDef.toEntity(data);
+      },
+    } satisfies KnexEntityDefinition;
+    await assert.rejects(orm.getMany(failingBookDef, qb => qb.orderBy("id")), { name: "MappingError", entity: "books", rowIndex: 2 });
+  });
+
+  await t.test("orm.createMany()", async (t) => {
+    const tags = await orm.createMany(tagDef, [{ name: "Satire" }, { name: "Horror" }], { books: tagBooks()(orm) });
+    assert.deepStrictEqual(tags.map(tag => tag.name), ["Satire", "Horror"]);
+    assert.ok(tags.every(tag => tag instanceof Tag && typeof tag.id === "number"));
+    assert.deepStrictEqual(tags.map(tag => tag.books), [[], []]);
+    assert.deepStrictEqual(await orm.createMany(tagDef, []), []);
+    // Entities are only returned for definitions with a primary key
+    const { primaryKey, ...commentDefWithoutKey } = commentDef;
+    assert.strictEqual(await orm.createMany(commentDefWithoutKey, []), null);
+
+    // MySQL has no RETURNING, inserted rows are selected again by primary key or insert id
+    let queries: string[] = [];
+    const listener = (query: { sql: string }) => queries.push(query.sql);
+    knexClient.on("query", listener);
+    (knexClient.client as any).dialect = "mysql";
+    try {
+      const crime = await orm.create(tagDef, { name: "Crime" });
+      assert.strictEqual(crime.name, "Crime");
+      assert.deepStrictEqual(await orm.find(tagDef, crime.id), crime);
+      const numberedTags = await orm.createMany(tagDef, [{ id: 101, name: "Western" }, { id: 100, name: "Poetry" }]);
+      assert.deepStrictEqual(numberedTags.map(tag => tag.name), ["Western", "Poetry"]);
+      // Only rows without a key of their own get generated ids
+      const mixedTags = await orm.createMany(tagDef, [{ id: 1000, name: "Noir" }, { name: "Cosy" }]);
+      assert.deepStrictEqual(mixedTags.map(tag => [tag.id, tag.name]), [[1000, "Noir"], [1001, "Cosy"]]);
+    } finally {
+      delete (knexClient.client as any).dialect;
+      knexClient.off("query", listener);
+    }
+    assert.ok(queries.every(sql => ! sql.includes("returning")));
+
+    await knexClient("tags").whereIn("name", ["Satire", "Horror", "Crime", "Western", "Poetry", "Noir", "Cosy"]).delete();
+  });
+
+  await t.test("orm.upsert()", async (t) => {
+    const detailsBook = () => hasOne(bookDetailsDef, "book_id", bookDef, "id");
+    const details = await orm.upsert(bookDetailsDef, [
+      { book_id: createdBooks.guardsGuards.id, isbn: "0-575-04296-4" },
+      { book_id: createdBooks.fragileThings.id, isbn: "978-0-06-051522-1", id: 0 },
+    ], { conflict: ["book_id"], update: ["isbn"] }, { book: detailsBook()(orm) });
+    assert.deepStrictEqual(details.map(detail => detail.book!.title), ["Guards! Guards!", "Fragile Things"]);
+    assert.ok(details.every(detail => detail instanceof BookDetails));
+    // Only the listed columns are updated
+    assert.strictEqual(details[1].id, createdBookDetails.fragileThings.id);
+    assert.strictEqual(details[1].isbn, "978-0-06-051522-1");
+
+    // MySQL has no RETURNING, upserted rows are selected again by their conflict columns
+    (knexClient.client as any).dialect = "mysql";
+    try {
+      const restored = await orm.upsert(bookDetailsDef, { ...createdBookDetails.fragileThings }, { conflict: ["book_id"], update: "all" });
+      assert.deepStrictEqual(restored, createdBookDetails.fragileThings);
+    } finally {
+      delete (knexClient.client as any).dialect;
+    }
+    assert.deepStrictEqual(await orm.upsert(bookDetailsDef, [], { conflict: ["book_id"], update: "all" }), []);
+
+    await knexClient("book_details").where("book_id", createdBooks.guardsGuards.id).delete();
+  });
+
+  await t.test("orm.insertGraph()", async (t) => {
+    const relations = { books: [authorBooks()(orm), { details: bookBookDetails()(orm) }] } satisfies RelationsToLoad;
+    const author = await orm.insertGraph(authorDef, {
+      name: "Ursula K. Le Guin",
+      books: [
+        { title: "A Wizard of Earthsea", details: { isbn: "0-395-27653-7" } },
+        { title: "The Dispossessed" },
+      ],
+    }, relations);
+    assert.ok(author instanceof Author);
+    assert.deepStrictEqual(author.books.map(book => book.title), ["A Wizard of Earthsea", "The Dispossessed"]);
+    assert.ok(author.books.every(book => book.author_id === author.id));
+    assert.strictEqual(author.books[0].details!.book_id, author.books[0].id);
+    // Relations without data are left out
+    assert.strictEqual(author.books[1].details, undefined);
+    const loaded = await orm.findOrFail(authorDef, author.id, relations);
+    assert.deepStrictEqual(loaded.books.map(book => book.details?.isbn ?? null), ["0-395-27653-7", null]);
+
+    // Entities of relations joining on their primary key are inserted first
+    const book = await orm.insertGraph(bookDef, { title: "Good Omens", author: { name: "Terry Pratchett & Neil Gaiman" } }, { author: bookAuthor()(orm) });
+    assert.strictEqual(book.author!.name, "Terry Pratchett & Neil Gaiman");
+    assert.strictEqual(book.author_id, book.author!.id);
+
+    // The graph is inserted in a transaction
+    const failingGraph = orm.insertGraph(authorDef, {
+      name: "Nobody",
+      books: [{ title: "Nothing", details: { id: createdBookDetails.fragileThings.id } }],
+    }, relations);
+    await assert.rejects(failingGraph, UniqueConstraintError);
+    assert.strictEqual(await orm.getOne(authorDef, qb => qb.where("name", "Nobody")), null);
+    await assert.rejects(orm.insertGraph(bookDef, { title: "Nothing", tags: [] }, { tags: bookTags()(orm) }), {
+      name: "SnadiError",
+      message: "Relation tags can't be inserted, only hasOne and hasMany relations can",
+    });
+
+    const bookIds = [...author.books.map(book => book.id), book.id];
+    await knexClient("book_details").whereIn("book_id", bookIds).delete();
+    await knexClient("books").whereIn("id", bookIds).delete();
+    await knexClient("authors").whereIn("id", [author.id, book.author!.id]).delete();
+  });
+
+  await t.test("orm.deleteCascade()", async (t) => {
+    const cascade = {
+      books: [hasMany(authorDef, "id", bookDef, "author_id", { onDelete: "cascade" })(orm), {
+        details: hasOne(bookDef, "id", bookDetailsDef, "book_id", { onDelete: "cascade" })(orm),
+      }],
+    } satisfies RelationsToLoad;
+    const author = await orm.insertGraph(authorDef, {
+      name: "Iain M. Banks",
+      books: [{ title: "Consider Phlebas", details: { isbn: "0-333-44138-7" } }, { title: "Excession" }],
+    }, cascade);
+    const bookIds = author.books.map(book => book.id);
+
+    // Restricted relations keep everything in place
+    const restrict = { books: hasMany(authorDef, "id", bookDef, "author_id", { onDelete: "restrict" })(orm) };
+    await assert.rejects(orm.deleteCascade(authorDef, qb => qb.where("id", author.id), restrict), (error) => {
+      assert.ok(error instanceof RestrictedDeleteError);
+      assert.strictEqual(error.message, "Can't delete authors, relation books still has 2 related entities");
+      return true;
+    });
+    assert.strictEqual((await orm.findMany(bookDef, bookIds)).length, 2);
+
+    await orm.deleteCascade(authorDef, qb => qb.where("id", author.id), cascade);
+    assert.strictEqual(await orm.find(authorDef, author.id), null);
+    assert.deepStrictEqual(await orm.findMany(bookDef, bookIds), []);
+    assert.strictEqual(await orm.getOne(bookDetailsDef, qb => qb.where("book_id", bookIds[0])), null);
+
+    const orphan = await orm.insertGraph(bookDef, { title: "The Player of Games", author: { name: "Culture" } }, { author: bookAuthor()(orm) });
+    await orm.deleteCascade(authorDef, qb => qb.where("id", orphan.author_id), {
+      books: hasMany(authorDef, "id", bookDef, "author_id", { onDelete: "setNull" })(orm),
+    });
+    assert.strictEqual((await orm.findOrFail(bookDef, orphan.id)).author_id, null);
+    await knexClient("books").where("id", orphan.id).delete();
+
+    // Relations pointing at a parent entity can't cascade, the parent's other children would be left dangling
+    const parented = await orm.insertGraph(bookDef, { title: "Use of Weapons", author: { name: "Banks" } }, { author: bookAuthor()(orm) });
+    await assert.rejects(orm.deleteCascade(bookDef, qb => qb.where("id", parented.id), { author: bookAuthor()(orm) }), {
+      name: "SnadiError",
+      message: "Relation author can't cascade deletes, it refers to the primary key of authors",
+    });
+    assert.ok(await orm.find(bookDef, parented.id));
+    assert.ok(await orm.find(authorDef, parented.author_id));
+    await knexClient("books").where("id", parented.id).delete();
+    await knexClient("authors").where("id", parented.author_id).delete();
+  });
+
+  await t.test("Pivot operations", async (t) => {
+    const book = createdBooks.theLastHero;
+    const tags = bookTags()(orm);
+    const getTags = async () => (await orm.findOrFail(bookDef, book.id, { tags })).tags;
+
+    await orm.attach(book, tags, [createdTags.fantasy.id], { position: 1 });
+    assert.deepStrictEqual((await getTags()).map(tag => [tag.name, tag.pivot.position]), [["Fantasy", 1]]);
+    await assert.rejects(orm.attach(book, tags, [createdTags.fantasy.id]), (error) => {
+      assert.ok(error instanceof UniqueConstraintError);
+      assert.strictEqual(error.entity, "book_tags");
+      return true;
+    });
+
+    // sync() only attaches and detaches what changed
+    const synced = await orm.sync(book, tags, [createdTags.humour.id, createdTags.unused.id, createdTags.humour.id]);
+    assert.deepStrictEqual(synced, { attached: [createdTags.humour.id, createdTags.unused.id], detached: [createdTags.fantasy.id] });
+    assert.deepStrictEqual(await orm.sync(book, tags, [createdTags.unused.id, createdTags.humour.id]), { attached: [], detached: [] });
+
+    await orm.detach(book, tags, [createdTags.unused.id]);
+    assert.deepStrictEqual((await getTags()).map(tag => tag.name), ["Humour"]);
+    await orm.detach(book, tags, []);
+    assert.strictEqual((await getTags()).length, 1);
+    await orm.detach(book, tags);
+    assert.deepStrictEqual(await getTags(), []);
+
+    await assert.rejects(orm.attach(createdAuthors.neil, authorBooks()(orm), [book.id]), {
+      name: "SnadiError",
+      message: "Relation to books has no pivot table, only belongsToMany relations have one",
+    });
+  });
+
+  await t.test("Optimistic locking", async (t) => {
+    const draft = await orm.create(draftDef, { title: "Untitled" });
+    assert.strictEqual(draft.version, 1);
+
+    assert.strictEqual(await orm.update(draftDef, qb => qb.where("id", draft.id), { title: "Mort", version: draft.version }), 1);
+    assert.deepStrictEqual({ ...await orm.find(draftDef, draft.id) }, { ...draft, title: "Mort", version: 2 });
+
+    // The other editor still has version 1
+    await assert.rejects(orm.update(draftDef, qb => qb.where("id", draft.id), { title: "Sourcery", version: draft.version }), (error) => {
+      assert.ok(error instanceof StaleEntityError);
+      assert.strictEqual(error.entity, "drafts");
+      assert.strictEqual(error.expectedVersion, 1);
+      return true;
+    });
+    await assert.rejects(orm.update(draftDef, qb => qb.where("id", draft.id), { title: "Sourcery" }), {
+      name: "SnadiError",
+      message: "Updates of drafts need the expected version",
+    });
+    assert.strictEqual((await orm.findOrFail(draftDef, draft.id)).title, "Mort");
+  });
+
+  await t.test("Timestamps", async (t) => {
+    draftClock = "2024-01-01T00:00:00.000Z";
+    const [draft, imported] = await orm.createMany(draftDef, [{ title: "Eric" }, { title: "Pyramids", created_at: "1989-06-15T00:00:00.000Z" }]);
+    assert.strictEqual(draft.created_at, "2024-01-01T00:00:00.000Z");
+    assert.strictEqual(draft.updated_at, "2024-01-01T00:00:00.000Z");
+    // Given timestamps are kept on inserts
+    assert.strictEqual(imported.created_at, "1989-06-15T00:00:00.000Z");
+
+    draftClock = "2024-01-02T00:00:00.000Z";
+    await orm.update(draftDef, qb => qb.where("id", draft.id), { title: "Faust Eric", version: draft.version });
+    const updated = await orm.findOrFail(draftDef, draft.id);
+    assert.strictEqual(updated.created_at, "2024-01-01T00:00:00.000Z");
+    assert.strictEqual(updated.updated_at, "2024-01-02T00:00:00.000Z");
+
+    draftClock = "2024-01-03T00:00:00.000Z";
+    const upserted = await orm.upsert(draftDef, { id: draft.id, title: "Eric" }, { conflict: ["id"], update: "all" });
+    assert.strictEqual(upserted.created_at, "2024-01-01T00:00:00.000Z");
+    assert.strictEqual(upserted.updated_at, "2024-01-03T00:00:00.000Z");
+  });
+
+  await t.test("orm.save()", async (t) => {
+    const created = await orm.create(draftDef, { title: "Small Gods" });
+    const draft = await orm.findOrFail(draftDef, created.id);
+    const otherCopy = await orm.findOrFail(draftDef, created.id);
+    assert.strictEqual(await orm.save(draft), false);
+
+    // Only changed fields are written, so other writes aren't overwritten
+    await knexClient("drafts").where("id", created.id).update({ created_at: "1992-01-01T00:00:00.000Z" });
+    draft.title = "Lords and Ladies";
+    draftClock = "2024-02-01T00:00:00.000Z";
+    assert.strictEqual(await orm.save(draft), true);
+    assert.strictEqual(draft.version, 2);
+    // The written timestamp is kept in the entity and its snapshot
+    assert.strictEqual(draft.updated_at, "2024-02-01T00:00:00.000Z");
+    assert.strictEqual(await orm.save(draft), false);
+    const saved = await orm.findOrFail(draftDef, created.id);
+    assert.deepStrictEqual([saved.title, saved.version, saved.created_at], ["Lords and Ladies", 2, "1992-01-01T00:00:00.000Z"]);
+
+    otherCopy.title = "Witches Abroad";
+    await assert.rejects(orm.save(otherCopy), StaleEntityError);
+    await assert.rejects(orm.save({ ...draft }), { name: "SnadiError" });
+
+    // Pivot fields of belongsToMany relations aren't columns of the entity
+    const book = await orm.getOne(bookDef, qb => qb.where("id", createdBooks.fragileThings.id), { tags: bookTags()(orm) });
+    book!.tags[0].pivot.position = 5;
+    assert.strictEqual(await orm.save(book!.tags[0]), false);
+
+    // The primary key finds the row to update, so changing it would update another row
+    const movedBook = await orm.findOrFail(bookDef, createdBooks.fragileThings.id);
+    movedBook.id = createdBooks.guardsGuards.id;
+    movedBook.title = "Renamed";
+    await assert.rejects(orm.save(movedBook), {
+      name: "SnadiError",
+      message: "Primary key id of books changed since it was loaded, it can't be saved",
+    });
+    assert.strictEqual((await orm.findOrFail(bookDef, createdBooks.guardsGuards.id)).title, createdBooks.guardsGuards.title);
+
+    // Like the data of update(), changes are validated before toRow()
+    const rowInputs: unknown[] = [];
+    const trimmingDraftDef = {
+      ...draftDef,
+      updateSchema: {
+        "~standard": { version: 1, vendor: "test", validate: (value: any) => ({ value: { ...value, title: value.title.trim() } }) },
+      } satisfies StandardSchemaV1,
+      toRow: (data: Partial<Draft>) => {
+        rowInputs.push(data);
+        return data;
+      },
+    } satisfies KnexEntityDefinition;
+    const trimmedDraft = await orm.findOrFail(trimmingDraftDef, created.id);
+    trimmedDraft.title = " Mort ";
+    await orm.save(trimmedDraft);
+    assert.deepStrictEqual(rowInputs, [{ title: "Mort", version: 2 }]);
+    assert.strictEqual((await orm.findOrFail(draftDef, created.id)).title, "Mort");
+  });
+
+  await t.test("Query events", async (t) => {
+    const queryEvents: QueryEvent[] = [];
+    const relationLoadEvents: RelationLoadEvent[] = [];
+    const eventOrm = new KnexOrm(knexClient, {
+      onQuery: event => queryEvents.push(event),
+      onRelationLoad: event => relationLoadEvents.push(event),
+    });
+    const relations = (orm: KnexOrm) => ({
+      books: [bookstoreBooks()(orm), {
+        author: bookAuthor()(orm),
+        tags: bookTags()(orm),
+      }],
+    } satisfies RelationsToLoad);
+    const bookstores = await eventOrm.getMany(bookstoreDef, qb => qb.orderBy("id"), relations(eventOrm));
+    const books = bookstores.flatMap(bookstore => bookstore.books);
+    const authorIds = new Set(books.flatMap(book => book.author ? [book.author.id] : []));
+    const tagCount = books.flatMap(book => book.tags).length;
+
+    const byPath = (a: { relationPath: string | null }, b: { relationPath: string | null }) => (a.relationPath ?? "").localeCompare(b.relationPath ?? "");
+    assert.deepStrictEqual(queryEvents.sort(byPath).map(({ table, relationPath, rowCount }) => ({ table, relationPath, rowCount })), [
+      { table: "bookstores", relationPath: null, rowCount: bookstores.length },
+      { table: "books", relationPath: "books", rowCount: books.length },
+      { table: "authors", relationPath: "books.author", rowCount: authorIds.size },
+      { table: "tags", relationPath: "books.tags", rowCount: tagCount },
+    ]);
+    assert.match(queryEvents[0].sql, /from `bookstores`/);
+    assert.ok(queryEvents.every(event => event.durationMs >= 0));
+    assert.deepStrictEqual(relationLoadEvents.sort(byPath).map(({ durationMs, ...event }) => event), [
+      { table: "books", relationPath: "books", keyCount: bookstores.length, rowCount: books.length },
+      { table: "authors", relationPath: "books.author", keyCount: authorIds.size, rowCount: authorIds.size },
+      { table: "tags", relationPath: "books.tags", keyCount: books.length, rowCount: tagCount },
+    ]);
+
+    // Spans of an in-memory tracer
+    const spanNames: string[] = [];
+    const tracedOrm = new KnexOrm(knexClient, tracingListeners({
+      startSpan: (name) => {
+        spanNames.push(name);
+        return { end: () => {} };
+      },
+    }));
+    await tracedOrm.getMany(bookstoreDef, qb => qb.orderBy("id"), relations(tracedOrm));
+    assert.deepStrictEqual(spanNames.sort(), [
+      "snadi.query authors",
+      "snadi.query books",
+      "snadi.query bookstores",
+      "snadi.query tags",
+      "snadi.relation books",
+      "snadi.relation books.author",
+      "snadi.relation books.tags",
+    ]);
+
+    // Writes, streamed selects and failed queries are reported too
+    queryEvents.length = 0;
+    const bookstore = await eventOrm.create(bookstoreDef, { name: "Events" });
+    await eventOrm.update(bookstoreDef, qb => qb.where("id", bookstore.id), { name: "Reported events" });
+    await assert.rejects(eventOrm.create(bookstoreDef, { id: bookstore.id, name: "Duplicate" }), UniqueConstraintError);
+    for await (const streamed of eventOrm.stream(bookstoreDef, qb => qb.where("id", bookstore.id))) {
+      assert.strictEqual(streamed.name, "Reported events");
+    }
+    await eventOrm.forceDelete(bookstoreDef, qb => qb.where("id", bookstore.id));
+    assert.deepStrictEqual(queryEvents.map(({ table, sql, rowCount, error }) => ({ table, statement: sql.split(" ")[0], rowCount, failed: error != null })), [
+      { table: "bookstores", statement: "insert", rowCount: 1, failed: false },
+      { table: "bookstores", statement: "update", rowCount: 1, failed: false },
+      { table: "bookstores", statement: "insert", rowCount: 0, failed: true },
+      { table: "bookstores", statement: "select", rowCount: 1, failed: false },
+      { table: "bookstores", statement: "delete", rowCount: 1, failed: false },
+    ]);
+  });
+
   await t.test("orm.update()", async (t) => {
     await orm.update(bookstoreDef, qb => qb.where("id", createdBookstores.noBooks.id), {
       name: "Some books",
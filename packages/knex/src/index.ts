@@ -1,4 +1,4 @@
-import { EntityDefinition, ManyRelationship, MappableInputType, MappableOutputType, OneRelationship, RelationsToLoad, WithLoadedRelations, loadRelationsForArray, loadRelationsForEntity, mapArrayToEntity, mapToEntity } from "@snadi/core";
+import { AggregateRelationship, BaseRelationship, BatchContext, EntityDefinition, EntityNotFoundError, IdentityMap, InsertGraphInput, KeyFields, ManyRelationship, MappableInputType, MappableOutputType, OnDeleteRule, OneRelationship, Page, PaginationOptions, PrimaryKeyValue, QueryEvent, RelationLoadEvent, RelationsToLoad, RestrictedDeleteError, SnadiError, Timestamps, StaleEntityError, SyncResult, LoadRelationsOptions, WithLazyRelations, WithLoadedRelations, StandardSchemaV1, changedFields, checkMaxConcurrency, decodeCursor, encodeCursor, keyValue, loadRelationsForArray, loadRelationsForEntity, insertEntityGraph, mapArrayToEntity, mapToEntity, normalizeDriverError, passthroughSchema, pivotOtherKey, pivotOtherValues, pivotRow, pivotTableOf, refersToParent, toKeyFields, toKeyValues, upsertColumns, uniqueOrderBy, validateWithSchema, snapshotEntity, withLazyRelations, withTimestamps } from "@snadi/core";
 import { Knex } from "knex";
 
 type Optional<T extends object> = {
@@ -9,20 +9,104 @@ type Awaitable<T> = T | Promise<T>;
 
 export type KnexEntityDefinition = EntityDefinition & {
   tableName: string;
-  primaryKey?: string;
+  primaryKey?: KeyFields;
 
   toRow?: (data: any) => any;
+  // Validate the data passed to create()/createMany() and update() before toRow()
+  insertSchema?: StandardSchemaV1;
+  updateSchema?: StandardSchemaV1;
+
+  // Lifecycle hooks receive the ORM instance running the operation, which is the transaction one within transaction()
+  beforeInsert?: (row: any, orm: KnexOrm) => Awaitable<void>;
+  afterInsert?: (row: any, orm: KnexOrm) => Awaitable<void>;
+  beforeUpdate?: (fields: any, builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder, orm: KnexOrm) => Awaitable<void>;
+  afterUpdate?: (fields: any, builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder, orm: KnexOrm) => Awaitable<void>;
+  beforeDelete?: (builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder, orm: KnexOrm) => Awaitable<void>;
+  afterDelete?: (builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder, orm: KnexOrm) => Awaitable<void>;
+  afterLoad?: (entity: any, orm: KnexOrm) => Awaitable<void>;
+  // delete() sets this column to the current time instead of removing rows, and trashed rows are left out of loads
+  softDelete?: { column: string };
+  // update() only changes rows that still have the version given in its data, and increments it
+  version?: string;
+  // Columns filled in with the clock's time on inserts, and on updates for updatedAt
+  timestamps?: Timestamps;
 };
 
 type ToRowInput<EntityDef extends KnexEntityDefinition> = EntityDef["toRow"] extends (data: any) => any ? Parameters<EntityDef["toRow"]>[0] : any;
 
-type CreateResult<EntityDef extends KnexEntityDefinition> = EntityDef["primaryKey"] extends string ? MappableOutputType<EntityDef> : null;
+// Inserted entities are only returned for entity definitions with a primary key, so they can be selected again on MySQL
+type CreateResult<EntityDef extends KnexEntityDefinition, Result = MappableOutputType<EntityDef>> = EntityDef["primaryKey"] extends KeyFields ? Result : null;
+
+// A field of the entity, or a tuple of fields for composite keys
+export type KeyField<EntityDef extends EntityDefinition> = keyof MappableOutputType<EntityDef> | Array<keyof MappableOutputType<EntityDef>>;
+
+export type KnexOrmOptions = {
+  // Coalesces relation loads issued in the same tick, see withBatching()
+  batchContext?: BatchContext;
+  // Reuses already loaded entity instances, see withIdentityMap()
+  identityMap?: IdentityMap;
+  // Default maximum number of keys per relation query, relations can override it with their chunkSize option
+  keyChunkSize?: number;
+  // Maximum number of relation queries to run at the same time
+  maxConcurrency?: number;
+  // Whether soft deleted rows are loaded as well, see withTrashed() and onlyTrashed()
+  trashed?: "with" | "only";
+  // Called after each query, including writes, streams and failed queries with their error,
+  // e.g. with tracingListeners() from @snadi/core
+  onQuery?: (event: QueryEvent) => void;
+  // Called after each relation load with the relation path, see loadRelationsForArray()
+  onRelationLoad?: (event: RelationLoadEvent) => void;
+};
+
+export type StreamOptions = {
+  // Number of entities to map and load relations for at a time
+  chunkSize?: number;
+};
+
+export type UpsertOptions = {
+  // Columns of the unique constraint that detects existing rows. MySQL uses any unique key instead.
+  conflict: string[];
+  // Columns to overwrite with the inserted values when the row already exists
+  update: string[] | "all";
+};
 
 export class KnexOrm {
   public knex: Knex;
+  public options: KnexOrmOptions;
 
-  constructor(knex: Knex) {
+  constructor(knex: Knex, options: KnexOrmOptions = {}) {
     this.knex = knex;
+    this.options = options;
+    checkMaxConcurrency(options.maxConcurrency);
+  }
+
+  // Returns an ORM instance with its own batch context, meant to be created once per request
+  withBatching(): KnexOrm {
+    return new KnexOrm(this.knex, { ...this.options, batchContext: new BatchContext() });
+  }
+
+  // Returns an ORM instance that maps each row to a single entity instance for as long as the identity map is used
+  withIdentityMap(identityMap: IdentityMap = new IdentityMap()): KnexOrm {
+    return new KnexOrm(this.knex, { ...this.options, identityMap });
+  }
+
+  // Returns an ORM instance whose loads and relations include soft deleted rows
+  withTrashed(): KnexOrm {
+    return this.withTrashedOption("with");
+  }
+
+  // Returns an ORM instance whose loads and relations only include soft deleted rows
+  onlyTrashed(): KnexOrm {
+    return this.withTrashedOption("only");
+  }
+
+  private withTrashedOption(trashed: KnexOrmOptions["trashed"]): KnexOrm {
+    // Loads of trashed rows must not be batched together with loads that leave them out
+    return new KnexOrm(this.knex, {
+      ...this.options,
+      batchContext: this.options.batchContext && new BatchContext(),
+      trashed,
+    });
   }
 
   getAll<EntityDef extends KnexEntityDefinition>(entityDef: EntityDef): Promise<Array<MappableOutputType<EntityDef>>>;
@@ -30,7 +114,7 @@ export class KnexOrm {
   async getAll(entityDef: KnexEntityDefinition, relations?: RelationsToLoad) {
     return this.loadMany(
       entityDef,
-      this.knex(entityDef.tableName),
+      runQuery(this, entityDef.tableName, selectFrom(this, entityDef)),
       relations as RelationsToLoad,
     );
   }
@@ -47,7 +131,7 @@ export class KnexOrm {
   async getMany(entityDef: KnexEntityDefinition, builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder, relations?: RelationsToLoad) {
     return this.loadMany(
       entityDef,
-      builder(this.knex(entityDef.tableName)),
+      runQuery(this, entityDef.tableName, builder(selectFrom(this, entityDef))),
       relations as RelationsToLoad,
     );
   }
@@ -64,41 +148,486 @@ export class KnexOrm {
   async getOne(entityDef: KnexEntityDefinition, builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder, relations?: RelationsToLoad) {
     return this.loadOne(
       entityDef,
-      builder(this.knex(entityDef.tableName)).first(),
+      runQuery(this, entityDef.tableName, builder(selectFrom(this, entityDef)).first()),
       relations as RelationsToLoad,
     );
   }
 
-  async create<EntityDef extends KnexEntityDefinition>(entityDef: EntityDef, data: ToRowInput<EntityDef>): Promise<CreateResult<EntityDef>> {
-    const dataToInsert = entityDef.toRow ? await entityDef.toRow(data) : data;
-    const inserted = await this.knex(entityDef.tableName).insert(dataToInsert).returning(entityDef.primaryKey ?? "*");
-    return (entityDef.primaryKey
-      ? this.getOne(entityDef, qb => qb.where("id", inserted[0][entityDef.primaryKey!]))
-      : null) as CreateResult<EntityDef>;
+  getOneOrFail<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+  ): Promise<MappableOutputType<EntityDef>>;
+  getOneOrFail<EntityDef extends KnexEntityDefinition, Relations extends RelationsToLoad>(
+    entityDef: EntityDef,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+    relations: Relations
+  ): Promise<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>;
+  // Like getOne(), but throws an EntityNotFoundError instead of returning null
+  async getOneOrFail(entityDef: KnexEntityDefinition, builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder, relations?: RelationsToLoad) {
+    const entity = await this.getOne(entityDef, builder, relations as RelationsToLoad);
+    if (entity == null) {
+      throw new EntityNotFoundError(entityDef.tableName);
+    }
+    return entity;
   }
 
-  async createMany<EntityDef extends KnexEntityDefinition>(entityDef: EntityDef, arr: Array<ToRowInput<EntityDef>>): Promise<void> {
-    const arrayToInsert = entityDef.toRow
-      ? await Promise.all(arr.map(data => entityDef.toRow!(data)))
-      : arr;
-    await this.knex(entityDef.tableName).insert(arrayToInsert);
+  find<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    key: PrimaryKeyValue<EntityDef>,
+  ): Promise<MappableOutputType<EntityDef> | null>;
+  find<EntityDef extends KnexEntityDefinition, Relations extends RelationsToLoad>(
+    entityDef: EntityDef,
+    key: PrimaryKeyValue<EntityDef>,
+    relations: Relations
+  ): Promise<WithLoadedRelations<MappableOutputType<EntityDef>, Relations> | null>;
+  // Gets the entity with the given primary key, a tuple of values for composite keys
+  async find(entityDef: KnexEntityDefinition, key: unknown, relations?: RelationsToLoad) {
+    const primaryKey = primaryKeyColumns(entityDef);
+    return this.getOne(entityDef, qb => whereKeys(this, qb, primaryKey, [toKeyValues(entityDef.primaryKey!, key)]), relations as RelationsToLoad);
   }
 
-  async update<EntityDef extends KnexEntityDefinition>(
+  findMany<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    keys: Array<PrimaryKeyValue<EntityDef>>,
+  ): Promise<Array<MappableOutputType<EntityDef>>>;
+  findMany<EntityDef extends KnexEntityDefinition, Relations extends RelationsToLoad>(
+    entityDef: EntityDef,
+    keys: Array<PrimaryKeyValue<EntityDef>>,
+    relations: Relations
+  ): Promise<Array<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>>;
+  // Gets the entities with the given primary keys in the order of the keys. Keys without an entity are left out.
+  async findMany(entityDef: KnexEntityDefinition, keys: unknown[], relations?: RelationsToLoad) {
+    const primaryKey = primaryKeyColumns(entityDef);
+    const fields = toKeyFields(entityDef.primaryKey!);
+    const keyRows = keys.map(key => {
+      const values = toKeyValues(entityDef.primaryKey!, key);
+      return Object.fromEntries(fields.map((field, i) => [field, values[i]]));
+    });
+    const rows = await loadInChunks(this, distinctKeys(keyRows, fields), undefined, (chunk) => {
+      return runQuery(this, entityDef.tableName, whereKeys(this, selectFrom(this, entityDef), primaryKey, chunk));
+    });
+    const entities = await this.loadMany(entityDef, rows, relations as RelationsToLoad);
+    const entitiesByKey = new Map(rows.map((row, i) => [keyValue(row, fields), entities[i]]));
+    return keyRows.flatMap((keyRow) => {
+      const key = keyValue(keyRow, fields);
+      return entitiesByKey.has(key) ? [entitiesByKey.get(key)!] : [];
+    });
+  }
+
+  findOrFail<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    key: PrimaryKeyValue<EntityDef>,
+  ): Promise<MappableOutputType<EntityDef>>;
+  findOrFail<EntityDef extends KnexEntityDefinition, Relations extends RelationsToLoad>(
+    entityDef: EntityDef,
+    key: PrimaryKeyValue<EntityDef>,
+    relations: Relations
+  ): Promise<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>;
+  // Like find(), but throws an EntityNotFoundError instead of returning null
+  async findOrFail(entityDef: KnexEntityDefinition, key: unknown, relations?: RelationsToLoad) {
+    const entity = await this.find(entityDef, key, relations as RelationsToLoad);
+    if (entity == null) {
+      throw new EntityNotFoundError(entityDef.tableName, key);
+    }
+    return entity;
+  }
+
+  // Like getMany(), but relations are only loaded when accessed through $load()
+  async getManyLazy<EntityDef extends KnexEntityDefinition, Relations extends RelationsToLoad>(
     entityDef: EntityDef,
     builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
-    fieldsToUpdate: Optional<ToRowInput<EntityDef>>,
+    relations: Relations,
+  ): Promise<Array<WithLazyRelations<MappableOutputType<EntityDef>, Relations>>> {
+    const entities = await this.getMany(entityDef, builder);
+    return withLazyRelations(entities, relations, this.loadRelationsOptions());
+  }
+
+  // Like getOne(), but relations are only loaded when accessed through $load()
+  async getOneLazy<EntityDef extends KnexEntityDefinition, Relations extends RelationsToLoad>(
+    entityDef: EntityDef,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+    relations: Relations,
+  ): Promise<WithLazyRelations<MappableOutputType<EntityDef>, Relations> | null> {
+    const entity = await this.getOne(entityDef, builder);
+    return entity ? withLazyRelations([entity], relations, this.loadRelationsOptions())[0] : null;
+  }
+
+  paginate<EntityDef extends KnexEntityDefinition, Options extends PaginationOptions>(
+    entityDef: EntityDef,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+    options: Options,
+  ): Promise<Page<MappableOutputType<EntityDef>, Options>>;
+  paginate<EntityDef extends KnexEntityDefinition, Options extends PaginationOptions, Relations extends RelationsToLoad>(
+    entityDef: EntityDef,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+    options: Options,
+    relations: Relations,
+  ): Promise<Page<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>, Options>>;
+  // Returns the page after the `after` cursor, or the page at `offset` together with the total count.
+  // The order of the builder is replaced by the orderBy option.
+  async paginate(
+    entityDef: KnexEntityDefinition,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+    options: PaginationOptions,
+    relations?: RelationsToLoad,
+  ) {
+    const orderBy = uniqueOrderBy(options.orderBy, entityDef.primaryKey);
+    let qb = builder(selectFrom(this, entityDef)).clearOrder();
+    let total: number | null = null;
+    if ("offset" in options) {
+      const [{ count }]: any[] = await runQuery(this, entityDef.tableName, this.knex.from(qb.clone().as(countAlias)).count("* as count"));
+      total = Number(count);
+      qb = qb.offset(options.offset);
+    } else if (options.after != null) {
+      qb = whereAfterCursor(this, qb, orderBy, decodeCursor(options.after, orderBy));
+    }
+    for (const [column, order] of orderBy) {
+      qb = qb.orderBy(column, order);
+    }
+    // One extra row tells whether there is a next page
+    const rows: any[] = await runQuery(this, entityDef.tableName, qb.limit(options.first + 1));
+    const pageRows = rows.slice(0, options.first);
+    const items = await this.loadMany(entityDef, pageRows, relations as RelationsToLoad);
+    const pageInfo = {
+      endCursor: pageRows.length ? encodeCursor(pageRows[pageRows.length - 1], orderBy) : null,
+      hasNextPage: rows.length > options.first,
+    };
+    return total == null ? { items, pageInfo } : { items, pageInfo, total };
+  }
+
+  stream<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+  ): AsyncIterable<MappableOutputType<EntityDef>>;
+  stream<EntityDef extends KnexEntityDefinition, Relations extends RelationsToLoad>(
+    entityDef: EntityDef,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+    relations: Relations,
+    options?: StreamOptions,
+  ): AsyncIterable<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>;
+  // Yields entities without reading every row into memory first. Relations are loaded for a chunk of
+  // entities at a time while the stream is still open, so they need a free connection in the pool.
+  async *stream(
+    entityDef: KnexEntityDefinition,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+    relations?: RelationsToLoad,
+    options: StreamOptions = {},
+  ) {
+    if (relations && Object.keys(relations).length) {
+      checkRelationConnection(this.knex);
+    }
+    const chunkSize = options.chunkSize ?? 100;
+    let rows: any[] = [];
+    for await (const row of streamQuery(this, entityDef.tableName, builder(selectFrom(this, entityDef)))) {
+      rows.push(row);
+      if (rows.length >= chunkSize) {
+        yield* await this.loadMany(entityDef, rows, relations as RelationsToLoad);
+        rows = [];
+      }
+    }
+    if (rows.length) {
+      yield* await this.loadMany(entityDef, rows, relations as RelationsToLoad);
+    }
+  }
+
+  create<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    data: ToRowInput<EntityDef>,
+  ): Promise<CreateResult<EntityDef>>;
+  create<EntityDef extends KnexEntityDefinition, Relations extends RelationsToLoad>(
+    entityDef: EntityDef,
+    data: ToRowInput<EntityDef>,
+    relations: Relations,
+  ): Promise<CreateResult<EntityDef, WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>>;
+  // Inserts the data and returns the mapped entity, optionally with relations
+  async create(entityDef: KnexEntityDefinition, data: unknown, relations?: RelationsToLoad) {
+    const entities = await this.insertEntities(entityDef, [data], relations);
+    return entities && entities[0];
+  }
+
+  createMany<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    arr: Array<ToRowInput<EntityDef>>,
+  ): Promise<CreateResult<EntityDef, Array<MappableOutputType<EntityDef>>>>;
+  createMany<EntityDef extends KnexEntityDefinition, Relations extends RelationsToLoad>(
+    entityDef: EntityDef,
+    arr: Array<ToRowInput<EntityDef>>,
+    relations: Relations,
+  ): Promise<CreateResult<EntityDef, Array<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>>>;
+  // Inserts the data with a single query and returns the mapped entities in the same order, optionally with relations
+  async createMany(entityDef: KnexEntityDefinition, arr: unknown[], relations?: RelationsToLoad) {
+    return this.insertEntities(entityDef, arr, relations);
+  }
+
+  // Uses RETURNING where the dialect supports it. MySQL doesn't, so inserted rows are selected
+  // again by their primary key, or by the auto increment id for rows that didn't specify one.
+  private async insertEntities(entityDef: KnexEntityDefinition, arr: unknown[], relations?: RelationsToLoad): Promise<any[] | null> {
+    const inputs = await Promise.all(arr.map(data => validateInput(entityDef, entityDef.insertSchema, data)));
+    const rows = (entityDef.toRow ? await Promise.all(inputs.map(data => entityDef.toRow!(data))) : inputs)
+      .map(row => withTimestamps(entityDef.timestamps, row, "insert"));
+    const primaryKey = entityDef.primaryKey && toKeyFields(entityDef.primaryKey);
+    if (rows.length === 0) {
+      return primaryKey ? [] : null;
+    }
+    for (const row of rows) {
+      await entityDef.beforeInsert?.(row, this);
+    }
+
+    if (this.knex.client.dialect !== "mysql") {
+      const inserted: any[] = await write(this, entityDef.tableName, this.knex(entityDef.tableName).insert(rows).returning("*"));
+      for (const [i, row] of rows.entries()) {
+        await entityDef.afterInsert?.({ ...row, ...inserted[i] }, this);
+      }
+      return primaryKey ? this.loadMany(entityDef, inserted, relations as RelationsToLoad) : null;
+    }
+
+    // MySQL returns the first generated id, and the ids generated by a single insert are consecutive.
+    // Rows with their own key go first so they can't make the generated ids jump.
+    // This assumes auto_increment_increment = 1 and an innodb_autoinc_lock_mode other than 2 (interleaved).
+    const generatesKey = (row: any) => primaryKey?.length === 1 && row[primaryKey[0]] == null;
+    const [insertId]: number[] = await write(this, entityDef.tableName, this.knex(entityDef.tableName).insert([
+      ...rows.filter(row => ! generatesKey(row)),
+      ...rows.filter(generatesKey),
+    ]));
+    let generatedKeys = 0;
+    const insertedRows = rows.map(row => generatesKey(row) ? { ...row, [primaryKey![0]]: insertId + generatedKeys++ } : row);
+    for (const row of insertedRows) {
+      await entityDef.afterInsert?.(row, this);
+    }
+    if (! primaryKey) {
+      return null;
+    }
+    const keys = insertedRows.map(row => typeof entityDef.primaryKey === "string" ? row[primaryKey[0]] : primaryKey.map(field => row[field]));
+    return this.findMany(entityDef, keys, relations as RelationsToLoad);
+  }
+
+  upsert<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    data: ToRowInput<EntityDef>,
+    options: UpsertOptions,
+  ): Promise<MappableOutputType<EntityDef>>;
+  upsert<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    data: Array<ToRowInput<EntityDef>>,
+    options: UpsertOptions,
+  ): Promise<Array<MappableOutputType<EntityDef>>>;
+  upsert<EntityDef extends KnexEntityDefinition, Relations extends RelationsToLoad>(
+    entityDef: EntityDef,
+    data: ToRowInput<EntityDef>,
+    options: UpsertOptions,
+    relations: Relations,
+  ): Promise<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>;
+  upsert<EntityDef extends KnexEntityDefinition, Relations extends RelationsToLoad>(
+    entityDef: EntityDef,
+    data: Array<ToRowInput<EntityDef>>,
+    options: UpsertOptions,
+    relations: Relations,
+  ): Promise<Array<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>>;
+  // Inserts the data, or updates the listed columns of rows that conflict with it, and returns the mapped entities.
+  // Lifecycle hooks don't run, since each row may be either inserted or updated.
+  async upsert(entityDef: KnexEntityDefinition, data: unknown, options: UpsertOptions, relations?: RelationsToLoad) {
+    const inputs = await Promise.all((Array.isArray(data) ? data : [data]).map(d => validateInput(entityDef, entityDef.insertSchema, d)));
+    const rows = (entityDef.toRow ? await Promise.all(inputs.map(input => entityDef.toRow!(input))) : inputs)
+      .map(row => withTimestamps(entityDef.timestamps, row, "insert"));
+    if (rows.length === 0) {
+      return [];
+    }
+    const query = this.knex(entityDef.tableName)
+      .insert(rows)
+      .onConflict(options.conflict)
+      .merge(upsertColumns(entityDef.timestamps, rows, options.update));
+
+    // MySQL has no RETURNING, the rows are selected again by their conflict columns
+    const upserted: any[] = this.knex.client.dialect !== "mysql"
+      ? await write(this, entityDef.tableName, query.returning("*"))
+      : await write(this, entityDef.tableName, query).then(() => loadInChunks(this, distinctKeys(rows, options.conflict), undefined, (chunk) => {
+        return runQuery(this, entityDef.tableName, whereKeys(this, this.knex(entityDef.tableName), options.conflict, chunk));
+      }));
+    const entities = await this.loadMany(entityDef, upserted, relations as RelationsToLoad);
+    // The order of returned rows isn't guaranteed, so entities are put back in the order of the data
+    const entitiesByKey = new Map(upserted.map((row, i) => [keyValue(row, options.conflict), entities[i]]));
+    const ordered = rows.map(row => entitiesByKey.get(keyValue(row, options.conflict)));
+    return Array.isArray(data) ? ordered : ordered[0];
+  }
+
+  // Inserts the entity and the related entities given under the relations' names in a transaction.
+  // Keys of inserted entities are copied into the foreign keys of the ones that refer to them.
+  async insertGraph<EntityDef extends KnexEntityDefinition, Relations extends RelationsToLoad>(
+    entityDef: EntityDef,
+    data: InsertGraphInput<ToRowInput<EntityDef>, Relations>,
+    relations: Relations,
+  ): Promise<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>> {
+    return this.transaction((trxOrm) => {
+      return insertEntityGraph(entityDef, data, relations, (otherEntityDef, row) => trxOrm.create(otherEntityDef as KnexEntityDefinition, row));
+    });
+  }
+
+  // Deletes the entities and their related entities following the onDelete rules of the relations, children first, in a transaction
+  async deleteCascade<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+    relations: RelationsToLoad,
   ): Promise<void> {
-    const qb = builder(this.knex(entityDef.tableName));
-    await qb.update(fieldsToUpdate);
+    await this.transaction(async (trxOrm) => {
+      const rows = await runQuery(trxOrm, entityDef.tableName, builder(selectFrom(trxOrm, entityDef)));
+      await deleteRelated(trxOrm, entityDef, rows, relations, []);
+      await trxOrm.delete(entityDef, builder);
+    });
+  }
+
+  // Links the entity to the other entities of a belongsToMany relation with the given keys. pivotData is added to each pivot row.
+  async attach<LocalEntityDef extends KnexEntityDefinition>(
+    entity: MappableOutputType<LocalEntityDef>,
+    relation: ManyRelationship<LocalEntityDef, any>,
+    keys: unknown[],
+    pivotData: Record<string, unknown> = {},
+  ): Promise<void> {
+    const pivot = pivotTableOf(relation);
+    if (keys.length) {
+      await write(this, pivot.table, this.knex(pivot.table).insert(keys.map(key => ({ ...pivotData, ...pivotRow(pivot, entity, key) }))));
+    }
+  }
+
+  // Unlinks the entity from the other entities of a belongsToMany relation with the given keys, or from all of them
+  async detach<LocalEntityDef extends KnexEntityDefinition>(
+    entity: MappableOutputType<LocalEntityDef>,
+    relation: ManyRelationship<LocalEntityDef, any>,
+    keys?: unknown[],
+  ): Promise<void> {
+    const pivot = pivotTableOf(relation);
+    if (keys?.length === 0) {
+      return;
+    }
+    let qb = whereKeys(this, this.knex(pivot.table), pivot.pivotLocalFields, [pivot.localFields.map(field => (entity as any)[field])]);
+    if (keys) {
+      qb = whereKeys(this, qb, pivot.pivotOtherFields, keys.map(key => pivotOtherValues(pivot, key)));
+    }
+    await write(this, pivot.table, qb.delete());
+  }
+
+  // Links the entity to exactly the other entities with the given keys, attaching and detaching only what changed
+  async sync<LocalEntityDef extends KnexEntityDefinition>(
+    entity: MappableOutputType<LocalEntityDef>,
+    relation: ManyRelationship<LocalEntityDef, any>,
+    keys: unknown[],
+    pivotData: Record<string, unknown> = {},
+  ): Promise<SyncResult> {
+    const pivot = pivotTableOf(relation);
+    return this.transaction(async (trxOrm) => {
+      const rows: any[] = await runQuery(trxOrm, pivot.table, whereKeys(trxOrm, trxOrm.knex(pivot.table), pivot.pivotLocalFields, [pivot.localFields.map(field => (entity as any)[field])])
+        .select(pivot.pivotOtherFields));
+      const currentKeys = new Map(rows.map(row => [keyValue(row, pivot.pivotOtherFields), pivotOtherKey(pivot, row)]));
+      const wantedKeys = new Map(keys.map(key => [keyValue(pivotRow(pivot, entity, key), pivot.pivotOtherFields), key]));
+      const attached = Array.from(wantedKeys).filter(([key]) => ! currentKeys.has(key)).map(([, key]) => key);
+      const detached = Array.from(currentKeys).filter(([key]) => ! wantedKeys.has(key)).map(([, key]) => key);
+      await trxOrm.detach(entity, relation, detached);
+      await trxOrm.attach(entity, relation, attached, pivotData);
+      return { attached, detached };
+    });
+  }
+
+  async update<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+    data: Optional<ToRowInput<EntityDef>>,
+  ): Promise<number> {
+    const fields = await validateInput(entityDef, entityDef.updateSchema, data);
+    return (await this.updateFields(entityDef, builder, fields)).updatedRows;
   }
 
+  // Updates validated fields, and returns them with their timestamps
+  private async updateFields(
+    entityDef: KnexEntityDefinition,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+    data: any,
+  ): Promise<{ updatedRows: number; fieldsToUpdate: any }> {
+    const fieldsToUpdate = withTimestamps(entityDef.timestamps, data, "update");
+    await entityDef.beforeUpdate?.(fieldsToUpdate, builder, this);
+    let qb = builder(this.knex(entityDef.tableName));
+    let fields = fieldsToUpdate;
+    if (entityDef.version) {
+      qb = qb.where(entityDef.version, expectedVersion(entityDef, fieldsToUpdate));
+      fields = { ...fieldsToUpdate, [entityDef.version]: this.knex.raw("?? + 1", [entityDef.version]) };
+    }
+    const updatedRows: number = await write(this, entityDef.tableName, qb.update(fields));
+    if (entityDef.version && updatedRows === 0) {
+      throw new StaleEntityError(entityDef.tableName, fieldsToUpdate[entityDef.version]);
+    }
+    await entityDef.afterUpdate?.(fieldsToUpdate, builder, this);
+    return { updatedRows, fieldsToUpdate };
+  }
+
+  // Updates the fields of a loaded entity that changed since it was loaded or last saved, by its primary key.
+  // Returns false without running a query when nothing changed.
+  async save(entity: object): Promise<boolean> {
+    const changed = changedFields(entity);
+    if (! changed) {
+      throw new SnadiError("Only entities loaded by an ORM from an entity definition with a primaryKey can be saved");
+    }
+    const entityDef = changed.entityDef as KnexEntityDefinition;
+    const changes = changed.changes;
+    if (Object.keys(changes).length === 0) {
+      return false;
+    }
+    // The row to update is found by its primary key, so it can't change
+    const primaryKey = toKeyFields(entityDef.primaryKey!);
+    const changedKeyFields = primaryKey.filter(field => Object.hasOwn(changes, field));
+    if (changedKeyFields.length) {
+      throw new SnadiError(`Primary key ${changedKeyFields.join(", ")} of ${entityDef.tableName} changed since it was loaded, it can't be saved`);
+    }
+    const keyValues = primaryKey.map(field => (entity as any)[field]);
+    if (entityDef.version) {
+      changes[entityDef.version] = (entity as any)[entityDef.version];
+    }
+    // Like update(), the changes are validated before toRow()
+    const validated = await validateInput(entityDef, entityDef.updateSchema, changes);
+    const data = entityDef.toRow ? await entityDef.toRow(validated) : validated;
+    const { fieldsToUpdate } = await this.updateFields(entityDef, qb => whereKeys(this, qb, primaryKeyColumns(entityDef), [keyValues]), data);
+    if (entityDef.version) {
+      (entity as any)[entityDef.version] = Number(changes[entityDef.version]) + 1;
+    }
+    if (entityDef.timestamps?.updatedAt) {
+      (entity as any)[entityDef.timestamps.updatedAt] = fieldsToUpdate[entityDef.timestamps.updatedAt];
+    }
+    snapshotEntity(entityDef, entity, { replace: true });
+    return true;
+  }
+
+  // Soft deletes rows of entities with a softDelete column, removes them otherwise
   async delete<EntityDef extends KnexEntityDefinition>(
     entityDef: EntityDef,
     builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
   ): Promise<void> {
+    if (! entityDef.softDelete) {
+      return this.forceDelete(entityDef, builder);
+    }
+    await entityDef.beforeDelete?.(builder, this);
+    const qb = builder(this.knex(entityDef.tableName).whereNull(entityDef.softDelete.column));
+    await write(this, entityDef.tableName, qb.update({ [entityDef.softDelete.column]: this.knex.fn.now() }));
+    await entityDef.afterDelete?.(builder, this);
+  }
+
+  // Removes rows, including soft deleted ones
+  async forceDelete<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+  ): Promise<void> {
+    await entityDef.beforeDelete?.(builder, this);
     const qb = builder(this.knex(entityDef.tableName));
-    await qb.delete();
+    await write(this, entityDef.tableName, qb.delete());
+    await entityDef.afterDelete?.(builder, this);
+  }
+
+  // Brings soft deleted rows back
+  async restore<EntityDef extends KnexEntityDefinition>(
+    entityDef: EntityDef,
+    builder: (qb: Knex.QueryBuilder) => Knex.QueryBuilder,
+  ): Promise<void> {
+    if (! entityDef.softDelete) {
+      throw new SnadiError(`Entity ${entityDef.tableName} has no softDelete column to restore`);
+    }
+    const qb = builder(this.knex(entityDef.tableName).whereNotNull(entityDef.softDelete.column));
+    await write(this, entityDef.tableName, qb.update({ [entityDef.softDelete.column]: null }));
   }
 
   loadOne<EntityDef extends KnexEntityDefinition>(
@@ -126,13 +655,14 @@ export class KnexOrm {
   ) {
     const row = await promise;
     if (Array.isArray(row)) {
-      throw new Error("load function of loadOne() should return a single row, got an array instead");
+      throw new SnadiError("load function of loadOne() should return a single row, got an array instead");
     }
     if (row == null) {
       return null;
     }
-    const entity = await mapToEntity(entityDef, row);
-    return relations ? loadRelationsForEntity(entity, relations) : entity;
+    const entity = await mapToEntity(entityDef, row, this.options.identityMap);
+    await this.afterLoad(entityDef, entity);
+    return relations ? loadRelationsForEntity(entity, relations, this.loadRelationsOptions()) : entity;
   }
 
   loadMany<EntityDef extends KnexEntityDefinition>(
@@ -151,15 +681,40 @@ export class KnexOrm {
   ) {
     const rows = await promise;
     if (! Array.isArray(rows)) {
-      throw new Error("load function of loadMany() should return an array of rows, got a non-array instead");
+      throw new SnadiError("load function of loadMany() should return an array of rows, got a non-array instead");
+    }
+    const entity = await mapArrayToEntity(entityDef, rows, this.options.identityMap);
+    for (const e of entity) {
+      await this.afterLoad(entityDef, e);
+    }
+    return relations ? loadRelationsForArray(entity, relations, this.loadRelationsOptions()) : entity;
+  }
+
+  protected loadRelationsOptions(): LoadRelationsOptions {
+    return {
+      batchContext: this.options.batchContext,
+      identityMap: this.options.identityMap,
+      maxConcurrency: this.options.maxConcurrency,
+      onRelationLoad: this.options.onRelationLoad,
+      afterLoad: (entityDef, entity) => this.afterLoad(entityDef, entity),
+    };
+  }
+
+  protected async afterLoad(entityDef: EntityDefinition, entity: any): Promise<void> {
+    await (entityDef as KnexEntityDefinition).afterLoad?.(entity, this);
+    // Entities that can be found again by their primary key can be saved
+    if ((entityDef as KnexEntityDefinition).primaryKey != null && entity !== null && typeof entity === "object") {
+      snapshotEntity(entityDef, entity);
     }
-    const entity = await mapArrayToEntity(entityDef, rows);
-    return relations ? loadRelationsForArray(entity, relations) : entity;
   }
 
   async transaction<T>(fn: (orm: KnexOrm) => T, config?: Knex.TransactionConfig): Promise<T> {
     return this.knex.transaction(async (trx) => {
-      const trxOrm = new KnexOrm(trx);
+      // Loads within the transaction must not be batched together with loads outside it
+      const trxOrm = new KnexOrm(trx, {
+        ...this.options,
+        batchContext: this.options.batchContext && new BatchContext(),
+      });
       return fn(trxOrm);
     }, config);
   }
@@ -169,32 +724,334 @@ export class KnexOrm {
   }
 }
 
+const countAlias = "__snadi_count";
+
+function primaryKeyColumns(entityDef: KnexEntityDefinition): string[] {
+  if (entityDef.primaryKey == null) {
+    throw new SnadiError(`Entity ${entityDef.tableName} has no primaryKey`);
+  }
+  return toKeyFields(entityDef.primaryKey).map(field => `${entityDef.tableName}.${field}`);
+}
+
+// Runs a write query, rethrowing driver errors that snadi knows about, e.g. unique constraint violations, as snadi errors
+async function write(orm: KnexOrm, table: string, qb: Knex.QueryBuilder): Promise<any> {
+  try {
+    return await runQuery(orm, table, qb);
+  } catch (error) {
+    throw normalizeDriverError(table, error);
+  }
+}
+
+// Runs a query, reporting it to the onQuery listener with the relation path it is loaded for, or the error it failed with
+async function runQuery(orm: KnexOrm, table: string, qb: Knex.QueryBuilder, relationPath: string | null = null): Promise<any> {
+  const start = performance.now();
+  let result: any;
+  try {
+    result = await qb;
+  } catch (error) {
+    reportQuery(orm, { table, relationPath, qb, start, rowCount: 0, error });
+    throw error;
+  }
+  // Updates and deletes return the number of affected rows
+  reportQuery(orm, { table, relationPath, qb, start, rowCount: typeof result === "number" ? result : Array.isArray(result) ? result.length : result == null ? 0 : 1 });
+  return result;
+}
+
+// Relations of streamed entities are loaded on a second connection, which a pool of one would only hand out after
+// the acquire timeout. A transaction has a single connection, where they would wait for the stream to end.
+function checkRelationConnection(knex: Knex): void {
+  if (knex.isTransaction) {
+    throw new SnadiError("stream() can't load relations within a transaction, its connection is busy streaming");
+  }
+  const poolMax = knex.client.config.pool?.max ?? knex.client.poolDefaults().max;
+  if (poolMax < 2) {
+    throw new SnadiError(`stream() loads relations on a second connection while streaming, but the connection pool has at most ${poolMax}`);
+  }
+}
+
+// Streams the rows of a select query, reporting it to the onQuery listener once the stream is closed
+async function* streamQuery(orm: KnexOrm, table: string, qb: Knex.QueryBuilder): AsyncIterable<any> {
+  const start = performance.now();
+  let rowCount = 0;
+  let failure: { error: unknown } | undefined;
+  try {
+    for await (const row of qb.stream()) {
+      rowCount++;
+      yield row;
+    }
+  } catch (error) {
+    failure = { error };
+    throw error;
+  } finally {
+    // Also reached when the consumer stops early
+    reportQuery(orm, { table, relationPath: null, qb, start, rowCount, ...failure });
+  }
+}
+
+function reportQuery(
+  orm: KnexOrm,
+  query: { table: string; relationPath: string | null; qb: Knex.QueryBuilder; start: number; rowCount: number; error?: unknown },
+): void {
+  orm.options.onQuery?.({
+    table: query.table,
+    relationPath: query.relationPath,
+    sql: query.qb.toSQL().sql,
+    rowCount: query.rowCount,
+    durationMs: performance.now() - query.start,
+    ...("error" in query ? { error: query.error } : {}),
+  });
+}
+
+function validateInput(entityDef: KnexEntityDefinition, schema: StandardSchemaV1 | undefined, data: any): Promise<any> {
+  return schema ? validateWithSchema(entityDef, schema, data) : Promise.resolve(data);
+}
+
+function expectedVersion(entityDef: KnexEntityDefinition, fields: any): Knex.Value {
+  if (fields?.[entityDef.version!] == null) {
+    throw new SnadiError(`Updates of ${entityDef.tableName} need the expected ${entityDef.version}`);
+  }
+  return fields[entityDef.version!];
+}
+
+// Query of the entity's table that leaves out soft deleted rows, unless the ORM asks for them
+function selectFrom(orm: KnexOrm, entityDef: KnexEntityDefinition): Knex.QueryBuilder {
+  const qb = orm.knex(entityDef.tableName);
+  if (! entityDef.softDelete || orm.options.trashed === "with") {
+    return qb;
+  }
+  const column = `${entityDef.tableName}.${entityDef.softDelete.column}`;
+  return orm.options.trashed === "only" ? qb.whereNotNull(column) : qb.whereNull(column);
+}
+
+// Dialects that sort NULL after every value in ascending order, the others sort it first
+const nullsLastDialects = new Set(["postgresql", "cockroachdb", "redshift", "oracledb"]);
+
+// Rows that come after the cursor values in the given order, e.g. for (title desc, id asc):
+// title < ? or (title = ? and id > ?)
+// NULL values are compared with IS NULL, where they sort in the dialect's NULL order
+function whereAfterCursor(orm: KnexOrm, qb: Knex.QueryBuilder, orderBy: Array<[column: string, order: "asc" | "desc"]>, values: unknown[]): Knex.QueryBuilder {
+  const nullsLast = nullsLastDialects.has(orm.knex.client.dialect);
+  return qb.where((builder) => {
+    orderBy.forEach(([column, order], i) => {
+      const ascending = order === "asc";
+      // Nothing comes after a NULL that sorts last
+      if (values[i] == null && ascending === nullsLast) {
+        return;
+      }
+      builder.orWhere((inner) => {
+        for (let j = 0; j < i; j++) {
+          if (values[j] == null) {
+            inner.whereNull(orderBy[j][0]);
+          } else {
+            inner.where(orderBy[j][0], values[j] as any);
+          }
+        }
+        if (values[i] == null) {
+          inner.whereNotNull(column);
+        } else if (ascending === nullsLast) {
+          inner.where(after => after.where(column, ascending ? ">" : "<", values[i] as any).orWhereNull(column));
+        } else {
+          inner.where(column, ascending ? ">" : "<", values[i] as any);
+        }
+      });
+    });
+  });
+}
+
+export type RelationOptions = {
+  query?: (qb: Knex.QueryBuilder) => Knex.QueryBuilder;
+  orderBy?: Array<[column: string, order: "asc" | "desc"]>;
+  // Maximum number of keys per query, defaults to the ORM's keyChunkSize
+  chunkSize?: number;
+};
+
+export type HasOneOptions = RelationOptions & {
+  // What orm.deleteCascade() does with the related entities, defaults to "cascade"
+  onDelete?: OnDeleteRule;
+};
+
+export type HasManyOptions = HasOneOptions & {
+  // Maximum number of related entities to load for each local entity
+  limit?: number;
+};
+
+const rowNumberAlias = "__snadi_row_number";
+
+// Dialects that support row values, e.g. (tenant_id, id) in ((1, 2), (1, 3))
+const rowValueDialects = new Set(["sqlite3", "postgresql", "mysql"]);
+
+function whereKeys(orm: KnexOrm, qb: Knex.QueryBuilder, columns: string[], keys: any[][]): Knex.QueryBuilder {
+  if (columns.length === 1) {
+    return qb.whereIn(columns[0], keys.map(key => key[0]));
+  }
+  if (rowValueDialects.has(orm.knex.client.dialect)) {
+    return qb.whereIn(columns, keys);
+  }
+  return qb.where((builder) => {
+    for (const key of keys) {
+      builder.orWhere(Object.fromEntries(columns.map((column, i) => [column, key[i]])));
+    }
+  });
+}
+
+// Composite keys with a missing part are left out, they can't match anything
+function distinctKeys(entities: any[], fields: string[]): any[][] {
+  const keys = new Map<unknown, any[]>();
+  for (const entity of entities) {
+    const key = keyValue(entity, fields);
+    if (! keys.has(key) && (fields.length === 1 || key != null)) {
+      keys.set(key, fields.map(field => entity[field]));
+    }
+  }
+  return Array.from(keys.values());
+}
+
+// Applies the onDelete rules of the relations to the entities related to the rows, deleting nested relations first
+async function deleteRelated(orm: KnexOrm, entityDef: KnexEntityDefinition, rows: any[], relations: RelationsToLoad, path: string[]): Promise<void> {
+  for (const [key, relationshipOrNested] of Object.entries(relations)) {
+    const relationship = (Array.isArray(relationshipOrNested) ? relationshipOrNested[0] : relationshipOrNested) as BaseRelationship<any, any>;
+    const subrelations = Array.isArray(relationshipOrNested) ? relationshipOrNested[1] : {};
+    const relationPath = [...path, key];
+    if (! relationship.keys) {
+      throw new SnadiError(`Relation ${relationPath.join(".")} can't cascade deletes, only hasOne and hasMany relations can`);
+    }
+    // Deleting or unlinking the parent would leave its other children dangling
+    if (refersToParent(entityDef, relationship)) {
+      throw new SnadiError(`Relation ${relationPath.join(".")} can't cascade deletes, it refers to the primary key of ${relationship.otherEntity.tableName}`);
+    }
+    const { localFields, otherFields } = relationship.keys;
+    const otherEntityDef: KnexEntityDefinition = relationship.otherEntity;
+    const keys = distinctKeys(rows, localFields);
+    const otherRows = await loadInChunks(orm, keys, undefined, chunk => runQuery(orm, otherEntityDef.tableName, whereKeys(orm, selectFrom(orm, otherEntityDef), otherFields, chunk)));
+    if (otherRows.length === 0) {
+      continue;
+    }
+    switch (relationship.onDelete ?? "cascade") {
+      case "restrict":
+        throw new RestrictedDeleteError(entityDef.tableName, relationPath.join("."), otherRows.length);
+      case "setNull":
+        await write(orm, otherEntityDef.tableName, whereKeys(orm, orm.knex(otherEntityDef.tableName), otherFields, keys)
+          .update(Object.fromEntries(otherFields.map(field => [field, null]))));
+        break;
+      case "cascade":
+        await deleteRelated(orm, otherEntityDef, otherRows, subrelations, relationPath);
+        await orm.delete(otherEntityDef, qb => whereKeys(orm, qb, otherFields, keys));
+        break;
+    }
+  }
+}
+
+// Runs one query per chunk of keys so big loads stay below the database's bound parameter limit
+async function loadInChunks(
+  orm: KnexOrm,
+  keys: any[][],
+  chunkSize: number | undefined,
+  loadChunk: (keys: any[][]) => Promise<any[]>,
+): Promise<any[]> {
+  const size = Math.max(1, chunkSize ?? orm.options.keyChunkSize ?? keys.length);
+  const rows: any[] = [];
+  for (let i = 0; i < keys.length; i += size) {
+    rows.push(...await loadChunk(keys.slice(i, i + size)));
+  }
+  return rows;
+}
+
+// Maps rows through the ORM's identity map with the definition the wrapping relation stands for
+function mapWithIdentityMap(orm: KnexOrm, entityDef: EntityDefinition, data: any): Promise<any> {
+  return orm.options.identityMap ? orm.options.identityMap.map(entityDef, data) : Promise.resolve(entityDef.toEntity(data));
+}
+
+// Relations with a query callback can't be compared, so they are never batched
+function relationBatchKey(
+  otherEntityDef: KnexEntityDefinition,
+  localFields: string[],
+  otherFields: string[],
+  options: HasManyOptions,
+): string | undefined {
+  if (options.query) {
+    return undefined;
+  }
+  return JSON.stringify([otherEntityDef.tableName, localFields, otherFields, options.orderBy ?? [], options.limit ?? null]);
+}
+
+async function loadRelatedRows(
+  orm: KnexOrm,
+  otherEntityDef: KnexEntityDefinition,
+  otherFields: string[],
+  keys: any[][],
+  options: HasManyOptions,
+  relationPath: string | null,
+): Promise<any[]> {
+  const tableName = otherEntityDef.tableName;
+  let qb = whereKeys(orm, selectFrom(orm, otherEntityDef), otherFields.map(field => `${tableName}.${field}`), keys);
+  if (options.query) {
+    qb = options.query(qb);
+  }
+  const orderBy = options.orderBy ?? [];
+  if (options.limit == null) {
+    for (const [column, order] of orderBy) {
+      qb = qb.orderBy(column, order);
+    }
+    return runQuery(orm, tableName, qb.select(`${tableName}.*`), relationPath);
+  }
+
+  // Limits are applied per local entity by numbering the rows of each key in a subquery
+  const windowOrderBy = orderBy.length
+    ? orderBy
+    : toKeyFields(otherEntityDef.primaryKey ?? otherFields).map(column => [column, "asc"] as const);
+  const ranked = qb
+    .select(`${tableName}.*`)
+    .rowNumber(rowNumberAlias, (analytic) => {
+      analytic.partitionBy(otherFields.map(field => `${tableName}.${field}`));
+      for (const [column, order] of windowOrderBy) {
+        analytic.orderBy(column, order);
+      }
+    });
+  let limited = orm.knex.from(ranked.as(tableName)).where(rowNumberAlias, "<=", options.limit);
+  for (const [column, order] of orderBy) {
+    limited = limited.orderBy(column, order);
+  }
+  const rows: any[] = await runQuery(orm, tableName, limited.select(), relationPath);
+  return rows.map(({ [rowNumberAlias]: rowNumber, ...row }) => row);
+}
+
 export function hasOne<
   LocalEntityDef extends KnexEntityDefinition,
   OtherEntityDef extends KnexEntityDefinition,
 >(
   localEntityDef: LocalEntityDef, // Just here for type hints
-  localField: keyof MappableOutputType<LocalEntityDef>,
+  localField: KeyField<LocalEntityDef>,
   otherEntityDef: OtherEntityDef,
-  otherField: keyof MappableOutputType<OtherEntityDef>,
+  otherField: KeyField<OtherEntityDef>,
+  options: HasOneOptions = {},
 ): (orm: KnexOrm) => OneRelationship<LocalEntityDef, OtherEntityDef> {
+  const localFields = toKeyFields(localField as KeyFields);
+  const otherFields = toKeyFields(otherField as KeyFields);
   return (orm) => {
     return {
       otherEntity: otherEntityDef,
-      load: async (localEntities) => {
-        const keys = new Set(localEntities.map(e => e[localField]));
-        if (keys.size === 0) {
+      table: otherEntityDef.tableName,
+      keys: { localFields, otherFields },
+      onDelete: options.onDelete,
+      batchKey: relationBatchKey(otherEntityDef, localFields, otherFields, options),
+      load: async (localEntities, context) => {
+        const keys = distinctKeys(localEntities, localFields);
+        if (keys.length === 0) {
           return [];
         }
-        return orm.knex(otherEntityDef.tableName).whereIn(otherField, Array.from(keys)).select();
+        return loadInChunks(orm, keys, options.chunkSize, chunk => loadRelatedRows(orm, otherEntityDef, otherFields, chunk, options, context?.relationPath ?? null));
       },
       attach: (otherEntities) => {
-        const otherEntitiesByKey = new Map<any, MappableOutputType<OtherEntityDef>>();
+        const otherEntitiesByKey = new Map<unknown, MappableOutputType<OtherEntityDef>>();
         for (const otherEntity of otherEntities) {
-          otherEntitiesByKey.set(otherEntity[otherField], otherEntity);
+          // The first match wins so an orderBy option decides which entity gets attached
+          const key = keyValue(otherEntity, otherFields);
+          if (! otherEntitiesByKey.has(key)) {
+            otherEntitiesByKey.set(key, otherEntity);
+          }
         }
         return (localEntity) => {
-          return otherEntitiesByKey.get(localEntity[localField]) ?? null;
+          return otherEntitiesByKey.get(keyValue(localEntity, localFields)) ?? null;
         };
       },
     };
@@ -206,30 +1063,377 @@ export function hasMany<
   OtherEntityDef extends KnexEntityDefinition,
 >(
   localEntityDef: LocalEntityDef, // Just here for type hints
-  localField: keyof MappableOutputType<LocalEntityDef>,
+  localField: KeyField<LocalEntityDef>,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  options: HasManyOptions = {},
+): (orm: KnexOrm) => ManyRelationship<LocalEntityDef, OtherEntityDef> {
+  const localFields = toKeyFields(localField as KeyFields);
+  const otherFields = toKeyFields(otherField as KeyFields);
+  return (orm) => {
+    return {
+      otherEntity: otherEntityDef,
+      table: otherEntityDef.tableName,
+      keys: { localFields, otherFields },
+      onDelete: options.onDelete,
+      batchKey: relationBatchKey(otherEntityDef, localFields, otherFields, options),
+      load: async (localEntities, context) => {
+        const keys = distinctKeys(localEntities, localFields);
+        if (keys.length === 0) {
+          return [];
+        }
+        return loadInChunks(orm, keys, options.chunkSize, chunk => loadRelatedRows(orm, otherEntityDef, otherFields, chunk, options, context?.relationPath ?? null));
+      },
+      attach: (otherEntities) => {
+        const otherEntitiesByKey = new Map<unknown, Array<MappableOutputType<OtherEntityDef>>>();
+        for (const otherEntity of otherEntities) {
+          const key = keyValue(otherEntity, otherFields);
+          if (! otherEntitiesByKey.has(key)) {
+            otherEntitiesByKey.set(key, []);
+          }
+          otherEntitiesByKey.get(key)!.push(otherEntity);
+        }
+        return (localEntity) => {
+          return otherEntitiesByKey.get(keyValue(localEntity, localFields)) ?? [];
+        };
+      },
+    };
+  };
+}
+
+type AggregateFunction = "count" | "sum" | "max";
+
+const aggregateKeyAlias = "__snadi_aggregate_key";
+const aggregateValueAlias = "__snadi_aggregate_value";
+
+function aggregate<
+  LocalEntityDef extends KnexEntityDefinition,
+  OtherEntityDef extends KnexEntityDefinition,
+  Result,
+>(
+  localField: KeyField<LocalEntityDef>,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  fn: AggregateFunction,
+  column: string,
+  toResult: (value: any) => Result,
+  options: RelationOptions,
+): (orm: KnexOrm) => AggregateRelationship<LocalEntityDef, Result> {
+  const localFields = toKeyFields(localField as KeyFields);
+  const otherColumns = toKeyFields(otherField as KeyFields).map(field => `${otherEntityDef.tableName}.${field}`);
+  const keyAliases = otherColumns.map((_, i) => `${aggregateKeyAlias}_${i}`);
+  return (orm) => {
+    return {
+      load: async (localEntities, context) => {
+        const keys = distinctKeys(localEntities, localFields);
+        if (keys.length === 0) {
+          return [];
+        }
+        return loadInChunks(orm, keys, options.chunkSize, async (chunk) => {
+          let qb = whereKeys(orm, selectFrom(orm, otherEntityDef), otherColumns, chunk);
+          if (options.query) {
+            qb = options.query(qb);
+          }
+          qb = qb
+            .groupBy(otherColumns)
+            .select(otherColumns.map((column, i) => `${column} as ${keyAliases[i]}`));
+          const valueColumn = `${column} as ${aggregateValueAlias}`;
+          const aggregateQb = fn === "count" ? qb.count(valueColumn) : fn === "sum" ? qb.sum(valueColumn) : qb.max(valueColumn);
+          return runQuery(orm, otherEntityDef.tableName, aggregateQb, context?.relationPath ?? null);
+        });
+      },
+      attach: (rows) => {
+        const valuesByKey = new Map<unknown, any>();
+        for (const row of rows) {
+          valuesByKey.set(keyValue(row, keyAliases), row[aggregateValueAlias]);
+        }
+        return (localEntity) => {
+          return toResult(valuesByKey.get(keyValue(localEntity, localFields)));
+        };
+      },
+    };
+  };
+}
+
+export function withCount<
+  LocalEntityDef extends KnexEntityDefinition,
+  OtherEntityDef extends KnexEntityDefinition,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  localField: KeyField<LocalEntityDef>,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  options: RelationOptions = {},
+): (orm: KnexOrm) => AggregateRelationship<LocalEntityDef, number> {
+  return aggregate(localField, otherEntityDef, otherField, "count", "*", value => Number(value ?? 0), options);
+}
+
+export function withSum<
+  LocalEntityDef extends KnexEntityDefinition,
+  OtherEntityDef extends KnexEntityDefinition,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  localField: KeyField<LocalEntityDef>,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  column: keyof MappableOutputType<OtherEntityDef>,
+  options: RelationOptions = {},
+): (orm: KnexOrm) => AggregateRelationship<LocalEntityDef, number> {
+  return aggregate(localField, otherEntityDef, otherField, "sum", `${otherEntityDef.tableName}.${String(column)}`, value => Number(value ?? 0), options);
+}
+
+export function withMax<
+  LocalEntityDef extends KnexEntityDefinition,
+  OtherEntityDef extends KnexEntityDefinition,
+  Column extends keyof MappableOutputType<OtherEntityDef>,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  localField: KeyField<LocalEntityDef>,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  column: Column,
+  options: RelationOptions = {},
+): (orm: KnexOrm) => AggregateRelationship<LocalEntityDef, MappableOutputType<OtherEntityDef>[Column] | null> {
+  return aggregate(localField, otherEntityDef, otherField, "max", `${otherEntityDef.tableName}.${String(column)}`, value => value ?? null, options);
+}
+
+export function withExists<
+  LocalEntityDef extends KnexEntityDefinition,
+  OtherEntityDef extends KnexEntityDefinition,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  localField: KeyField<LocalEntityDef>,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  options: RelationOptions = {},
+): (orm: KnexOrm) => AggregateRelationship<LocalEntityDef, boolean> {
+  return aggregate(localField, otherEntityDef, otherField, "count", "*", value => Number(value ?? 0) > 0, options);
+}
+
+type PivotFields<PivotColumn extends string> = [PivotColumn] extends [never]
+  ? {}
+  : { pivot: { [K in PivotColumn]: any } };
+
+export type BelongsToManyEntityDefinition<
+  OtherEntityDef extends KnexEntityDefinition,
+  PivotColumn extends string,
+> = Omit<Omit<OtherEntityDef, "toEntity">, "primaryKey"> & {
+  toEntity: (data: MappableInputType<OtherEntityDef>) => Promise<MappableOutputType<OtherEntityDef> & PivotFields<PivotColumn>>;
+};
+
+const pivotLocalKeyAlias = "__snadi_pivot_local_key";
+const pivotColumnAliasPrefix = "__snadi_pivot_";
+
+export function belongsToMany<
+  LocalEntityDef extends KnexEntityDefinition,
+  OtherEntityDef extends KnexEntityDefinition,
+  PivotColumn extends string = never,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  localField: KeyField<LocalEntityDef>,
+  pivotTable: string,
+  pivotLocalField: KeyFields,
+  pivotOtherField: KeyFields,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  options: { pivotColumns?: PivotColumn[]; chunkSize?: number } = {},
+): (orm: KnexOrm) => ManyRelationship<LocalEntityDef, BelongsToManyEntityDefinition<OtherEntityDef, PivotColumn>> {
+  const pivotColumns = options.pivotColumns ?? [];
+  const localFields = toKeyFields(localField as KeyFields);
+  const pivotLocalFields = toKeyFields(pivotLocalField);
+  const pivotOtherFields = toKeyFields(pivotOtherField);
+  const otherFields = toKeyFields(otherField as KeyFields);
+  const localKeyAliases = pivotLocalFields.map((_, i) => `${pivotLocalKeyAlias}_${i}`);
+  // Each pivot row is mapped on its own, an identity map must not merge the rows of entities related to several local entities
+  const { primaryKey, ...pivotEntityDef }: Omit<OtherEntityDef, "toEntity"> = otherEntityDef;
+  return (orm) => {
+    return {
+      pivot: { table: pivotTable, localFields, pivotLocalFields, pivotOtherFields, otherFields },
+      table: otherEntityDef.tableName,
+      otherEntity: {
+        ...pivotEntityDef,
+        schema: otherEntityDef.schema && passthroughSchema(
+          () => otherEntityDef.schema,
+          field => field.startsWith(pivotLocalKeyAlias) || field.startsWith(pivotColumnAliasPrefix),
+        ),
+        toEntity: async (data) => {
+          const rest = { ...data };
+          for (const alias of localKeyAliases) {
+            delete rest[alias];
+          }
+          const pivot: Record<string, any> = {};
+          for (const column of pivotColumns) {
+            pivot[column] = rest[pivotColumnAliasPrefix + column];
+            delete rest[pivotColumnAliasPrefix + column];
+          }
+          // Entities with pivot fields differ per pivot row, the others are shared through the identity map
+          const entity = pivotColumns.length ? await otherEntityDef.toEntity(rest) : await mapWithIdentityMap(orm, otherEntityDef, rest);
+          if (pivotColumns.length) {
+            entity.pivot = pivot;
+          }
+          return entity;
+        },
+        afterLoad: async (entity, orm) => {
+          await otherEntityDef.afterLoad?.(entity, orm);
+          if (primaryKey != null) {
+            snapshotEntity(otherEntityDef, entity, { exclude: ["pivot"] });
+          }
+        },
+      },
+      load: async (localEntities, context) => {
+        const keys = distinctKeys(localEntities, localFields);
+        if (keys.length === 0) {
+          return [];
+        }
+        return loadInChunks(orm, keys, options.chunkSize, async (chunk) => {
+          const qb = selectFrom(orm, otherEntityDef)
+            .join(pivotTable, (join) => {
+              pivotOtherFields.forEach((field, i) => join.on(`${pivotTable}.${field}`, `${otherEntityDef.tableName}.${otherFields[i]}`));
+            });
+          const selectQb = whereKeys(orm, qb, pivotLocalFields.map(field => `${pivotTable}.${field}`), chunk)
+            .select(
+              `${otherEntityDef.tableName}.*`,
+              ...pivotLocalFields.map((field, i) => `${pivotTable}.${field} as ${localKeyAliases[i]}`),
+              ...pivotColumns.map(column => `${pivotTable}.${column} as ${pivotColumnAliasPrefix}${column}`),
+            );
+          return runQuery(orm, otherEntityDef.tableName, selectQb, context?.relationPath ?? null);
+        });
+      },
+      attach: (otherEntities, rows) => {
+        const otherEntitiesByKey = new Map<unknown, Array<MappableOutputType<OtherEntityDef> & PivotFields<PivotColumn>>>();
+        // The same row of the other table can be related to several local entities,
+        // the pivot row each entity was mapped from tells which one
+        otherEntities.forEach((otherEntity, i) => {
+          const localKey = keyValue(rows[i], localKeyAliases);
+          if (! otherEntitiesByKey.has(localKey)) {
+            otherEntitiesByKey.set(localKey, []);
+          }
+          otherEntitiesByKey.get(localKey)!.push(otherEntity);
+        });
+        return (localEntity) => {
+          return otherEntitiesByKey.get(keyValue(localEntity, localFields)) ?? [];
+        };
+      },
+    };
+  };
+}
+
+export type MorphTargets = {
+  [type: string]: [KnexEntityDefinition, KeyFields];
+};
+
+export type MorphToEntityDefinition<Targets extends MorphTargets> = {
+  schema: StandardSchemaV1;
+  toEntity: (data: any) => Promise<MappableOutputType<Targets[keyof Targets][0]>>;
+  afterLoad: (entity: any, orm: KnexOrm) => Awaitable<void>;
+};
+
+const morphTypeAlias = "__snadi_morph_type";
+
+export function morphTo<
+  LocalEntityDef extends KnexEntityDefinition,
+  Targets extends MorphTargets,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  typeField: keyof MappableOutputType<LocalEntityDef>,
+  idField: KeyField<LocalEntityDef>,
+  targets: Targets,
+  options: { chunkSize?: number } = {},
+): (orm: KnexOrm) => OneRelationship<LocalEntityDef, MorphToEntityDefinition<Targets>> {
+  const idFields = toKeyFields(idField as KeyFields);
+  return (orm) => {
+    const typesByEntity = new WeakMap<object, string>();
+    return {
+      // One query runs per target table
+      table: Object.values(targets).map(([targetDef]) => targetDef.tableName).join(", "),
+      otherEntity: {
+        schema: passthroughSchema(data => targets[data[morphTypeAlias]][0].schema, field => field === morphTypeAlias),
+        toEntity: async (data) => {
+          const { [morphTypeAlias]: type, ...rest } = data;
+          const entity = await mapWithIdentityMap(orm, targets[type][0], rest);
+          typesByEntity.set(entity, type);
+          return entity;
+        },
+        afterLoad: (entity, orm) => targets[typesByEntity.get(entity)!][0].afterLoad?.(entity, orm),
+      },
+      load: async (localEntities, context) => {
+        const localEntitiesByType = new Map<string, any[]>();
+        for (const localEntity of localEntities) {
+          const type = localEntity[typeField];
+          if (! Object.hasOwn(targets, type)) {
+            continue;
+          }
+          if (! localEntitiesByType.has(type)) {
+            localEntitiesByType.set(type, []);
+          }
+          localEntitiesByType.get(type)!.push(localEntity);
+        }
+        const rowsByType = await Promise.all(Array.from(localEntitiesByType.entries()).map(async ([type, localEntitiesOfType]) => {
+          const [otherEntityDef, otherField] = targets[type];
+          const keys = distinctKeys(localEntitiesOfType, idFields);
+          const rows = await loadInChunks(orm, keys, options.chunkSize, chunk => {
+            return runQuery(orm, otherEntityDef.tableName, whereKeys(orm, selectFrom(orm, otherEntityDef), toKeyFields(otherField), chunk).select(), context?.relationPath ?? null);
+          });
+          return rows.map(row => ({ ...row, [morphTypeAlias]: type }));
+        }));
+        return rowsByType.flat();
+      },
+      attach: (otherEntities) => {
+        const otherEntitiesByTypeAndKey = new Map<string, Map<unknown, MappableOutputType<Targets[keyof Targets][0]>>>();
+        for (const otherEntity of otherEntities) {
+          const type = typesByEntity.get(otherEntity)!;
+          if (! otherEntitiesByTypeAndKey.has(type)) {
+            otherEntitiesByTypeAndKey.set(type, new Map());
+          }
+          otherEntitiesByTypeAndKey.get(type)!.set(keyValue(otherEntity, targets[type][1]), otherEntity);
+        }
+        return (localEntity) => {
+          return otherEntitiesByTypeAndKey.get(localEntity[typeField])?.get(keyValue(localEntity, idFields)) ?? null;
+        };
+      },
+    };
+  };
+}
+
+export function morphMany<
+  LocalEntityDef extends KnexEntityDefinition,
+  OtherEntityDef extends KnexEntityDefinition,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  localField: KeyField<LocalEntityDef>,
   otherEntityDef: OtherEntityDef,
-  otherField: keyof MappableOutputType<OtherEntityDef>,
+  otherTypeField: keyof MappableOutputType<OtherEntityDef>,
+  otherIdField: KeyField<OtherEntityDef>,
+  type: string,
+  options: { chunkSize?: number } = {},
 ): (orm: KnexOrm) => ManyRelationship<LocalEntityDef, OtherEntityDef> {
+  const localFields = toKeyFields(localField as KeyFields);
+  const otherIdFields = toKeyFields(otherIdField as KeyFields);
   return (orm) => {
     return {
       otherEntity: otherEntityDef,
-      load: async (localEntities) => {
-        const keys = new Set(localEntities.map(e => e[localField]));
-        if (keys.size === 0) {
+      table: otherEntityDef.tableName,
+      load: async (localEntities, context) => {
+        const keys = distinctKeys(localEntities, localFields);
+        if (keys.length === 0) {
           return [];
         }
-        return orm.knex(otherEntityDef.tableName).whereIn(otherField, Array.from(keys)).select();
+        return loadInChunks(orm, keys, options.chunkSize, (chunk) => {
+          const qb = selectFrom(orm, otherEntityDef).where(otherTypeField as string, type);
+          return runQuery(orm, otherEntityDef.tableName, whereKeys(orm, qb, otherIdFields, chunk).select(), context?.relationPath ?? null);
+        });
       },
       attach: (otherEntities) => {
-        const otherEntitiesByKey = new Map<any, Array<MappableOutputType<OtherEntityDef>>>();
+        const otherEntitiesByKey = new Map<unknown, Array<MappableOutputType<OtherEntityDef>>>();
         for (const otherEntity of otherEntities) {
-          if (! otherEntitiesByKey.has(otherEntity[otherField])) {
-            otherEntitiesByKey.set(otherEntity[otherField], []);
+          const key = keyValue(otherEntity, otherIdFields);
+          if (! otherEntitiesByKey.has(key)) {
+            otherEntitiesByKey.set(key, []);
           }
-          otherEntitiesByKey.get(otherEntity[otherField])!.push(otherEntity);
+          otherEntitiesByKey.get(key)!.push(otherEntity);
         }
         return (localEntity) => {
-          return otherEntitiesByKey.get(localEntity[localField]) ?? [];
+          return otherEntitiesByKey.get(keyValue(localEntity, localFields)) ?? [];
         };
       },
     };
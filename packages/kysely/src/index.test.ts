@@ -1,8 +1,12 @@
 import test, { after } from "node:test";
 import SQLite from "better-sqlite3";
-import { EntitiesToKyselyDatabase, SnadiKyselyEntityDefinition, ValidSnadiKyselyEntityDefinition, createKyselyOrm, hasMany, hasOne } from "./index.js";
+import { EntitiesToKyselyDatabase, SnadiKyselyEntityDefinition, SnadiKyselyOrm, ValidSnadiKyselyEntityDefinition, belongsToMany, createKyselyOrm, hasMany, hasOne, morphMany, morphTo, withCount, withExists, withMax, withSum } from "./index.js";
 import assert from "node:assert";
-import { InsertResult, Kysely, SqliteDialect } from "kysely";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { CompiledQuery, DatabaseConnection, Driver, InsertResult, Kysely, MysqlAdapter, SqliteAdapter, SqliteDialect, sql } from "kysely";
+import { EntityNotFoundError, QueryEvent, RelationLoadError, RelationLoadEvent, RelationsToLoad, RestrictedDeleteError, StaleEntityError, StandardSchemaV1, UniqueConstraintError, ValidationError, tracingListeners } from "@snadi/core";
 
 test("tests", async (t) => {
   // ENTITIES
@@ -22,6 +26,7 @@ test("tests", async (t) => {
 
   const bookstoreDef = {
     tableName: "bookstores" as const,
+    primaryKey: "id",
     toEntity: (data: Bookstore) => toEntityClass(Bookstore, data),
     toInsert: (data: Partial<Bookstore>) => data,
     toUpdate: (data: Partial<Bookstore>) => data,
@@ -38,6 +43,7 @@ test("tests", async (t) => {
 
   const bookDef = {
     tableName: "books" as const,
+    primaryKey: "id",
     toEntity: (data: Book) => toEntityClass(Book, data),
     toInsert: (data: Partial<Book>) => data,
     toUpdate: (data: Partial<Book>) => data,
@@ -55,6 +61,7 @@ test("tests", async (t) => {
 
   const bookDetailsDef = {
     tableName: "book_details" as const,
+    primaryKey: "id",
     toEntity: (data: BookDetails) => toEntityClass(BookDetails, data),
     toInsert: (data: Partial<BookDetails>) => data,
     toUpdate: (data: Partial<BookDetails>) => data,
@@ -67,6 +74,7 @@ test("tests", async (t) => {
 
   const authorDef = {
     tableName: "authors" as const,
+    primaryKey: "id",
     toEntity: (data: Author) => toEntityClass(Author, data),
     toInsert: (data: Partial<Author>) => data,
     toUpdate: (data: Partial<Author>) => data,
@@ -74,6 +82,174 @@ test("tests", async (t) => {
 
   const authorBooks = () => hasMany(authorDef, "id", bookDef, "author_id");
 
+  class Tag {
+    declare id: number;
+    declare name: string;
+  }
+
+  const tagDef = {
+    tableName: "tags" as const,
+    primaryKey: "id",
+    toEntity: (data: Tag) => toEntityClass(Tag, data),
+    toInsert: (data: Partial<Tag>) => data,
+    toUpdate: (data: Partial<Tag>) => data,
+  } satisfies SnadiKyselyEntityDefinition;
+
+  const bookTags = () => belongsToMany(bookDef, "id", "book_tags", "book_id", "tag_id", tagDef, "id", { pivotColumns: ["position"] });
+
+  const tagBooks = () => belongsToMany(tagDef, "id", "book_tags", "tag_id", "book_id", bookDef, "id");
+
+  type BookTag = {
+    id: number;
+    book_id: number;
+    tag_id: number;
+    position: number;
+  };
+
+  const bookTagDef = {
+    tableName: "book_tags" as const,
+    toEntity: (data: BookTag) => data,
+    toInsert: (data: Omit<BookTag, "id">) => data,
+    toUpdate: (data: Partial<BookTag>) => data,
+  } satisfies SnadiKyselyEntityDefinition;
+
+  class Comment {
+    declare id: number;
+    declare body: string;
+    declare commentable_type: string;
+    declare commentable_id: number;
+  }
+
+  const commentDef = {
+    tableName: "comments" as const,
+    primaryKey: "id",
+    toEntity: (data: Comment) => toEntityClass(Comment, data),
+    toInsert: (data: Partial<Comment>) => data,
+    toUpdate: (data: Partial<Comment>) => data,
+  } satisfies SnadiKyselyEntityDefinition;
+
+  const commentCommentable = () => morphTo(commentDef, "commentable_type", "commentable_id", {
+    book: [bookDef, "id"],
+    author: [authorDef, "id"],
+  });
+
+  const bookComments = () => morphMany(bookDef, "id", commentDef, "commentable_type", "commentable_id", "book");
+
+  const authorComments = () => morphMany(authorDef, "id", commentDef, "commentable_type", "commentable_id", "author");
+
+  class Order {
+    declare tenant_id: number;
+    declare id: number;
+    declare customer: string;
+  }
+
+  const orderDef = {
+    tableName: "orders" as const,
+    primaryKey: ["tenant_id", "id"] as const,
+    toEntity: (data: Order) => toEntityClass(Order, data),
+    toInsert: (data: Partial<Order>) => data,
+    toUpdate: (data: Partial<Order>) => data,
+  } satisfies SnadiKyselyEntityDefinition;
+
+  class OrderLine {
+    declare tenant_id: number;
+    declare order_id: number;
+    declare line_no: number;
+    declare product: string;
+  }
+
+  const orderLineDef = {
+    tableName: "order_lines" as const,
+    primaryKey: ["tenant_id", "order_id", "line_no"],
+    toEntity: (data: OrderLine) => toEntityClass(OrderLine, data),
+    toInsert: (data: Partial<OrderLine>) => data,
+    toUpdate: (data: Partial<OrderLine>) => data,
+  } satisfies SnadiKyselyEntityDefinition;
+
+  const orderLines = () => hasMany(orderDef, ["tenant_id", "id"], orderLineDef, ["tenant_id", "order_id"], { orderBy: [["line_no", "asc"]], limit: 2 });
+  const lineOrder = () => hasOne(orderLineDef, ["tenant_id", "order_id"], orderDef, ["tenant_id", "id"]);
+  const orderLineCount = () => withCount(orderDef, ["tenant_id", "id"], orderLineDef, ["tenant_id", "order_id"]);
+
+  class Note {
+    declare id: number;
+    declare body: string;
+    declare book_id: number;
+    declare loaded: boolean;
+  }
+
+  const noteEvents: string[] = [];
+  // Hooks write their side effects through the ORM they receive, so they end up in the same transaction
+  const logNoteEvent = async (event: string, orm: SnadiKyselyOrm<any>) => {
+    noteEvents.push(event);
+    await orm.kysely.insertInto("note_events").values({ event, in_transaction: orm.kysely.isTransaction ? 1 : 0 }).execute();
+  };
+
+  const noteDef = {
+    tableName: "notes" as const,
+    primaryKey: "id",
+    toEntity: (data: Omit<Note, "loaded">) => toEntityClass(Note, data),
+    toInsert: (data: Partial<Note>) => data,
+    toUpdate: (data: Partial<Note>) => data,
+    beforeInsert: async (row: Partial<Note>, orm: SnadiKyselyOrm<any>) => {
+      row.body = row.body!.trim();
+      await logNoteEvent("beforeInsert", orm);
+    },
+    afterInsert: (row: Note, orm: SnadiKyselyOrm<any>) => logNoteEvent(`afterInsert ${row.body}`, orm),
+    beforeUpdate: (fields: Partial<Note>, builder: any, orm: SnadiKyselyOrm<any>) => logNoteEvent(`beforeUpdate ${fields.body}`, orm),
+    afterUpdate: (fields: Partial<Note>, builder: any, orm: SnadiKyselyOrm<any>) => logNoteEvent("afterUpdate", orm),
+    beforeDelete: (builder: any, orm: SnadiKyselyOrm<any>) => logNoteEvent("beforeDelete", orm),
+    afterDelete: (builder: any, orm: SnadiKyselyOrm<any>) => logNoteEvent("afterDelete", orm),
+    afterLoad: (note: Note) => {
+      note.loaded = true;
+    },
+  } satisfies SnadiKyselyEntityDefinition;
+
+  const bookNotes = () => hasMany(bookDef, "id", noteDef, "book_id");
+
+  class Review {
+    declare id: number;
+    declare body: string;
+    declare book_id: number;
+    declare deleted_at: string | null;
+  }
+
+  const reviewDef = {
+    tableName: "reviews" as const,
+    primaryKey: "id",
+    softDelete: { column: "deleted_at" },
+    toEntity: (data: Review) => toEntityClass(Review, data),
+    toInsert: (data: Partial<Review>) => data,
+    toUpdate: (data: Partial<Review>) => data,
+  } satisfies SnadiKyselyEntityDefinition;
+
+  const bookReviews = () => hasMany(bookDef, "id", reviewDef, "book_id");
+
+  class Draft {
+    declare id: number;
+    declare title: string;
+    declare version: number;
+    declare created_at: string;
+    declare updated_at: string;
+  }
+
+  let draftClock = "2024-01-01T00:00:00.000Z";
+  const draftDef = {
+    tableName: "drafts" as const,
+    primaryKey: "id",
+    version: "version",
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at", clock: () => draftClock },
+    toEntity: (data: Draft) => toEntityClass(Draft, data),
+    toInsert: (data: Partial<Draft>) => data,
+    toUpdate: (data: Partial<Draft>) => data,
+  } satisfies SnadiKyselyEntityDefinition;
+
+  const noteEventDef = {
+    tableName: "note_events" as const,
+    toEntity: (data: { id: number, event: string, in_transaction: number }) => data,
+    toInsert: (data: { event: string, in_transaction: number }) => data,
+    toUpdate: (data: { event: string, in_transaction: number }) => data,
+  } satisfies SnadiKyselyEntityDefinition;
+
   // INITIALIZE KYSELY AND ORM
 
   type KyselyDB = EntitiesToKyselyDatabase<
@@ -81,13 +257,29 @@ test("tests", async (t) => {
     | typeof bookDef
     | typeof bookDetailsDef
     | typeof authorDef
+    | typeof tagDef
+    | typeof bookTagDef
+    | typeof commentDef
+    | typeof orderDef
+    | typeof orderLineDef
+    | typeof noteDef
+    | typeof noteEventDef
+    | typeof reviewDef
+    | typeof draftDef
   >;
 
+  const database = new SQLite(":memory:");
   const dialect = new SqliteDialect({
-    database: new SQLite(":memory:"),
+    database,
   });
 
-  const kysely = new Kysely<KyselyDB>({ dialect });
+  let executedQueries = 0;
+  const kysely = new Kysely<KyselyDB>({
+    dialect,
+    log: () => {
+      executedQueries++;
+    },
+  });
 
   after(() => {
     kysely.destroy();
@@ -124,9 +316,90 @@ test("tests", async (t) => {
     .addColumn("name", "text")
     .execute();
 
+  await kysely.schema
+    .createTable("tags")
+    .addColumn("id", "integer", c => c.primaryKey().autoIncrement())
+    .addColumn("name", "text")
+    .execute();
+
+  await kysely.schema
+    .createTable("book_tags")
+    .addColumn("id", "integer", c => c.primaryKey().autoIncrement())
+    .addColumn("book_id", "integer")
+    .addColumn("tag_id", "integer")
+    .addColumn("position", "integer")
+    .addUniqueConstraint("book_tags_book_id_tag_id_unique", ["book_id", "tag_id"])
+    .execute();
+
+  await kysely.schema
+    .createTable("comments")
+    .addColumn("id", "integer", c => c.primaryKey().autoIncrement())
+    .addColumn("body", "text")
+    .addColumn("commentable_type", "text")
+    .addColumn("commentable_id", "integer")
+    .execute();
+
+  await kysely.schema
+    .createTable("orders")
+    .addColumn("tenant_id", "integer")
+    .addColumn("id", "integer")
+    .addColumn("customer", "text")
+    .addPrimaryKeyConstraint("orders_pkey", ["tenant_id", "id"])
+    .execute();
+
+  await kysely.schema
+    .createTable("order_lines")
+    .addColumn("tenant_id", "integer")
+    .addColumn("order_id", "integer")
+    .addColumn("line_no", "integer")
+    .addColumn("product", "text")
+    .addPrimaryKeyConstraint("order_lines_pkey", ["tenant_id", "order_id", "line_no"])
+    .execute();
+
+  await kysely.schema
+    .createTable("notes")
+    .addColumn("id", "integer", c => c.primaryKey().autoIncrement())
+    .addColumn("body", "text")
+    .addColumn("book_id", "integer")
+    .execute();
+
+  await kysely.schema
+    .createTable("reviews")
+    .addColumn("id", "integer", c => c.primaryKey().autoIncrement())
+    .addColumn("body", "text")
+    .addColumn("book_id", "integer")
+    .addColumn("deleted_at", "text")
+    .execute();
+
+  // Only one live review can have the same body
+  await kysely.schema
+    .createIndex("reviews_live_body")
+    .on("reviews")
+    .column("body")
+    .unique()
+    .where(sql.ref("deleted_at"), "is", null)
+    .execute();
+
+  await kysely.schema
+    .createTable("drafts")
+    .addColumn("id", "integer", c => c.primaryKey().autoIncrement())
+    .addColumn("title", "text")
+    .addColumn("version", "integer", c => c.notNull().defaultTo(1))
+    .addColumn("created_at", "text")
+    .addColumn("updated_at", "text")
+    .execute();
+
+  await kysely.schema
+    .createTable("note_events")
+    .addColumn("id", "integer", c => c.primaryKey().autoIncrement())
+    .addColumn("event", "text")
+    .addColumn("in_transaction", "integer")
+    .execute();
+
   // CREATE TEST DATA
 
-  const fromInsert = async <EntityDef extends ValidSnadiKyselyEntityDefinition<KyselyDB>>(def: EntityDef, insertResult: InsertResult) => {
+  // order_lines has no id column
+  const fromInsert = async <EntityDef extends ValidSnadiKyselyEntityDefinition<KyselyDB> & { tableName: Exclude<keyof KyselyDB, "order_lines"> }>(def: EntityDef, insertResult: InsertResult) => {
     return (await orm.getOne(def, qb => qb.where("id", "=", Number(insertResult.insertId) as any)))!;
   };
 
@@ -185,6 +458,32 @@ test("tests", async (t) => {
     })),
   };
 
+  const createdTags = {
+    fantasy: await fromInsert(tagDef, await orm.insert(tagDef, {
+      name: "Fantasy",
+    })),
+    humour: await fromInsert(tagDef, await orm.insert(tagDef, {
+      name: "Humour",
+    })),
+    unused: await fromInsert(tagDef, await orm.insert(tagDef, {
+      name: "Unused",
+    })),
+  };
+
+  await orm.insert(bookTagDef, [
+    { book_id: createdBooks.fragileThings.id, tag_id: createdTags.fantasy.id, position: 1 },
+    { book_id: createdBooks.theColourOfMagic.id, tag_id: createdTags.fantasy.id, position: 1 },
+    { book_id: createdBooks.theColourOfMagic.id, tag_id: createdTags.humour.id, position: 2 },
+    { book_id: createdBooks.guardsGuards.id, tag_id: createdTags.humour.id, position: 1 },
+  ]);
+
+  await orm.insert(commentDef, [
+    { body: "Lovely short stories", commentable_type: "book", commentable_id: createdBooks.fragileThings.id },
+    { body: "Where it all began", commentable_type: "book", commentable_id: createdBooks.theColourOfMagic.id },
+    { body: "GNU Terry Pratchett", commentable_type: "author", commentable_id: createdAuthors.pratchett.id },
+    { body: "Points at nothing", commentable_type: "unknown", commentable_id: createdBooks.fragileThings.id },
+  ]);
+
   await t.test("orm.insert()", async (t) => {
     const authors = await orm.getAll(authorDef);
     assert.strictEqual(authors.length, Object.keys(createdAuthors).length);
@@ -316,6 +615,192 @@ test("tests", async (t) => {
     });
   });
 
+  await t.test("Relation constraints", async (t) => {
+    await t.test("query", async (t) => {
+      const bookstores = await orm.getAll(bookstoreDef, {
+        books: hasMany(bookstoreDef, "id", bookDef, "bookstore_id", {
+          query: qb => qb.where("title", "!=", "Fragile Things"),
+        })(orm),
+      });
+      const brigittesBooks = bookstores.find(b => b.id === createdBookstores.brigittesBooks.id)!;
+      assert.deepStrictEqual(brigittesBooks.books.map(b => b.title).sort(), ["Guards! Guards!", "The Last Hero"]);
+
+      // The query selects from the other entity's table, so its columns are checked
+      // @ts-expect-error
+      const unknownColumn = () => hasMany(bookstoreDef, "id", bookDef, "bookstore_id", { query: qb => qb.where("name", "=", "Brigitte's Books") });
+    });
+
+    await t.test("orderBy", async (t) => {
+      const authors = await orm.getAll(authorDef, {
+        books: hasMany(authorDef, "id", bookDef, "author_id", {
+          orderBy: [["title", "desc"]],
+        })(orm),
+      });
+      const pratchett = authors.find(a => a.id === createdAuthors.pratchett.id)!;
+      assert.deepStrictEqual(pratchett.books.map(b => b.title), ["The Last Hero", "The Colour of Magic", "Guards! Guards!"]);
+    });
+
+    await t.test("limit", async (t) => {
+      const authors = await orm.getAll(authorDef, {
+        books: hasMany(authorDef, "id", bookDef, "author_id", {
+          orderBy: [["title", "asc"]],
+          limit: 2,
+        })(orm),
+      });
+      const pratchett = authors.find(a => a.id === createdAuthors.pratchett.id)!;
+      assert.deepStrictEqual(pratchett.books.map(b => b.title), ["Guards! Guards!", "The Colour of Magic"]);
+      for (const book of pratchett.books) {
+        assert.ok(book instanceof Book);
+        assert.deepStrictEqual(Object.keys(book).sort(), ["author_id", "bookstore_id", "id", "title"]);
+      }
+      const neil = authors.find(a => a.id === createdAuthors.neil.id)!;
+      assert.deepStrictEqual(neil.books.map(b => b.title), ["Fragile Things"]);
+    });
+
+    await t.test("limit without orderBy", async (t) => {
+      // Rows are numbered in primary key order, so the same rows are kept every time
+      const queries: string[] = [];
+      const queryOrm = createKyselyOrm(kysely, { onQuery: event => queries.push(event.sql) });
+      const authors = await queryOrm.getAll(authorDef, {
+        books: hasMany(authorDef, "id", bookDef, "author_id", { limit: 2 })(queryOrm),
+      });
+      assert.ok(queries.some(sql => /over ?\(partition by .+ order by /.test(sql)));
+      const pratchett = authors.find(a => a.id === createdAuthors.pratchett.id)!;
+      assert.deepStrictEqual(pratchett.books.map(b => b.id).sort((a, b) => a - b), [createdBooks.theColourOfMagic.id, createdBooks.guardsGuards.id]);
+    });
+
+    await t.test("hasOne() with orderBy", async (t) => {
+      const authors = await orm.getAll(authorDef, {
+        latestBook: hasOne(authorDef, "id", bookDef, "author_id", {
+          orderBy: [["id", "desc"]],
+        })(orm),
+      });
+      const pratchett = authors.find(a => a.id === createdAuthors.pratchett.id)!;
+      assert.strictEqual(pratchett.latestBook!.id, createdBooks.theLastHero.id);
+    });
+  });
+
+  await t.test("Aggregate relations", async (t) => {
+    const bookstores = await orm.getAll(bookstoreDef, {
+      bookCount: withCount(bookstoreDef, "id", bookDef, "bookstore_id")(orm),
+      bookIdSum: withSum(bookstoreDef, "id", bookDef, "bookstore_id", "id")(orm),
+      lastTitle: withMax(bookstoreDef, "id", bookDef, "bookstore_id", "title")(orm),
+      hasBooks: withExists(bookstoreDef, "id", bookDef, "bookstore_id")(orm),
+      hasFragileThings: withExists(bookstoreDef, "id", bookDef, "bookstore_id", {
+        query: qb => qb.where("title", "=", "Fragile Things"),
+      })(orm),
+    });
+
+    const brigittesBooks = bookstores.find(b => b.id === createdBookstores.brigittesBooks.id)!;
+    const bookCount: number = brigittesBooks.bookCount;
+    assert.strictEqual(bookCount, 3);
+    assert.strictEqual(brigittesBooks.bookIdSum, createdBooks.fragileThings.id + createdBooks.guardsGuards.id + createdBooks.theLastHero.id);
+    assert.strictEqual(brigittesBooks.lastTitle, "The Last Hero");
+    assert.strictEqual(brigittesBooks.hasBooks, true);
+    assert.strictEqual(brigittesBooks.hasFragileThings, true);
+
+    const noBooks = bookstores.find(b => b.id === createdBookstores.noBooks.id)!;
+    assert.strictEqual(noBooks.bookCount, 0);
+    assert.strictEqual(noBooks.bookIdSum, 0);
+    assert.strictEqual(noBooks.lastTitle, null);
+    assert.strictEqual(noBooks.hasBooks, false);
+    assert.strictEqual(noBooks.hasFragileThings, false);
+  });
+
+  await t.test("m:n relations", async (t) => {
+    await t.test("orm.getAll()", async (t) => {
+      const books = await orm.getAll(bookDef, {
+        tags: bookTags()(orm),
+      });
+      assert.strictEqual(books.length, Object.keys(createdBooks).length);
+      const tagNamesByTitle = Object.fromEntries(books.map(b => [b.title, b.tags.map(tag => tag.name).sort()]));
+      assert.deepStrictEqual(tagNamesByTitle, {
+        "Fragile Things": ["Fantasy"],
+        "The Colour of Magic": ["Fantasy", "Humour"],
+        "Guards! Guards!": ["Humour"],
+        "The Last Hero": [],
+      });
+      for (const book of books) {
+        for (const tag of book.tags) {
+          assert.ok(tag instanceof Tag);
+          assert.strictEqual(typeof tag.pivot.position, "number");
+          assert.ok(! ("book_id" in tag));
+        }
+      }
+    });
+
+    await t.test("orm.getOne()", async (t) => {
+      const book = await orm.getOne(bookDef, qb => qb.where("id", "=", createdBooks.theColourOfMagic.id), {
+        tags: bookTags()(orm),
+      });
+      assert.ok(book instanceof Book);
+      const positions = Object.fromEntries(book.tags.map(tag => [tag.name, tag.pivot.position]));
+      assert.deepStrictEqual(positions, { Fantasy: 1, Humour: 2 });
+    });
+
+    await t.test("nested", async (t) => {
+      const tags = await orm.getAll(tagDef, {
+        books: [tagBooks()(orm), {
+          author: bookAuthor()(orm),
+        }],
+      });
+      assert.strictEqual(tags.length, Object.keys(createdTags).length);
+      const unused = tags.find(tag => tag.id === createdTags.unused.id)!;
+      assert.deepStrictEqual(unused.books, []);
+      const humour = tags.find(tag => tag.id === createdTags.humour.id)!;
+      assert.strictEqual(humour.books.length, 2);
+      for (const book of humour.books) {
+        assert.ok(book instanceof Book);
+        assert.ok(book.author instanceof Author);
+        assert.strictEqual(book.author.name, "Terry Pratchett");
+      }
+    });
+  });
+
+  await t.test("Polymorphic relations", async (t) => {
+    await t.test("morphTo()", async (t) => {
+      const comments = await orm.getAll(commentDef, {
+        commentable: commentCommentable()(orm),
+      });
+
+      const commentablesByBody = Object.fromEntries(comments.map(c => [c.body, c.commentable]));
+      assert.ok(commentablesByBody["Lovely short stories"] instanceof Book);
+      assert.strictEqual(commentablesByBody["Lovely short stories"].id, createdBooks.fragileThings.id);
+      assert.ok(commentablesByBody["Where it all began"] instanceof Book);
+      assert.strictEqual(commentablesByBody["Where it all began"].id, createdBooks.theColourOfMagic.id);
+      assert.ok(commentablesByBody["GNU Terry Pratchett"] instanceof Author);
+      assert.strictEqual(commentablesByBody["GNU Terry Pratchett"].id, createdAuthors.pratchett.id);
+      assert.strictEqual(commentablesByBody["Points at nothing"], null);
+    });
+
+    await t.test("morphTo() with nested relations", async (t) => {
+      const comment = await orm.getOne(commentDef, qb => qb.where("body", "=", "Where it all began"), {
+        commentable: [commentCommentable()(orm), {
+          comments: bookComments()(orm),
+        }],
+      });
+      assert.ok(comment != null);
+      assert.ok(comment.commentable instanceof Book);
+      assert.deepStrictEqual(comment.commentable.comments.map(c => c.body), ["Where it all began"]);
+    });
+
+    await t.test("morphMany()", async (t) => {
+      const authors = await orm.getAll(authorDef, {
+        comments: authorComments()(orm),
+        books: [authorBooks()(orm), {
+          comments: bookComments()(orm),
+        }],
+      });
+      const pratchett = authors.find(a => a.id === createdAuthors.pratchett.id)!;
+      assert.deepStrictEqual(pratchett.comments.map(c => c.body), ["GNU Terry Pratchett"]);
+      const colourOfMagic = pratchett.books.find(b => b.id === createdBooks.theColourOfMagic.id)!;
+      assert.deepStrictEqual(colourOfMagic.comments.map(c => c.body), ["Where it all began"]);
+      const neil = authors.find(a => a.id === createdAuthors.neil.id)!;
+      assert.deepStrictEqual(neil.comments, []);
+      assert.deepStrictEqual(neil.books[0].comments.map(c => c.body), ["Lovely short stories"]);
+    });
+  });
+
   await t.test("Nested relations", async (t) => {
     await t.test("orm.getAll()", async (t) => {
       const bookstores = await orm.getAll(bookstoreDef, {
@@ -392,6 +877,873 @@ test("tests", async (t) => {
     });
   });
 
+  await t.test("Batched relation loading", async (t) => {
+    const requestOrm = orm.withBatching();
+    const bookRows = await kysely.selectFrom("books").selectAll().execute();
+
+    // Like field resolvers, each book loads its relations separately in the same tick
+    const queriesBefore = executedQueries;
+    const books = await Promise.all(bookRows.map(row => requestOrm.loadOne(bookDef, row, {
+      author: [bookAuthor()(requestOrm), {
+        books: authorBooks()(requestOrm),
+      }],
+    })));
+    assert.strictEqual(executedQueries - queriesBefore, 2);
+
+    for (const book of books) {
+      assert.ok(book instanceof Book);
+      assert.ok(book.author instanceof Author);
+      assert.strictEqual(book.author.id, book.author_id);
+      assert.ok(book.author.books.length > 0);
+      assert.ok(book.author.books.every(b => b.author_id === book.author_id));
+    }
+  });
+
+  await t.test("Lazy relations", async (t) => {
+    await t.test("orm.getManyLazy()", async (t) => {
+      const queriesBefore = executedQueries;
+      const books = await orm.getManyLazy(bookDef, qb => qb.orderBy("id"), {
+        author: [bookAuthor()(orm), {
+          books: authorBooks()(orm),
+        }],
+        details: bookBookDetails()(orm),
+      });
+      assert.strictEqual(executedQueries - queriesBefore, 1);
+      assert.ok(! ("author" in books[0]));
+
+      const authors = await Promise.all(books.map(book => book.$load("author")));
+      assert.strictEqual(executedQueries - queriesBefore, 3);
+      for (const [i, author] of authors.entries()) {
+        assert.ok(author instanceof Author);
+        assert.strictEqual(author.id, books[i].author_id);
+        assert.ok(author.books.every(b => b.author_id === author.id));
+      }
+
+      await books[0].$load("author");
+      assert.strictEqual(executedQueries - queriesBefore, 3);
+
+      const details = await books[0].$load("details");
+      assert.strictEqual(executedQueries - queriesBefore, 4);
+      assert.ok(details instanceof BookDetails);
+    });
+
+    await t.test("orm.getOneLazy()", async (t) => {
+      const book = await orm.getOneLazy(bookDef, qb => qb.where("id", "=", createdBooks.fragileThings.id), {
+        author: bookAuthor()(orm),
+      });
+      assert.ok(book instanceof Book);
+      const author = await book.$load("author");
+      assert.strictEqual(author!.id, createdAuthors.neil.id);
+
+      const missing = await orm.getOneLazy(bookDef, qb => qb.where("id", "=", -1), {
+        author: bookAuthor()(orm),
+      });
+      assert.strictEqual(missing, null);
+    });
+  });
+
+  await t.test("Identity map", async (t) => {
+    const sessionOrm = orm.withIdentityMap();
+    const authors = await sessionOrm.getAll(authorDef, {
+      books: [authorBooks()(sessionOrm), {
+        author: bookAuthor()(sessionOrm),
+      }],
+      comments: authorComments()(sessionOrm),
+    });
+    for (const author of authors) {
+      for (const book of author.books) {
+        assert.strictEqual(book.author, author);
+      }
+    }
+
+    const books = await sessionOrm.getAll(bookDef);
+    const pratchett = authors.find(a => a.id === createdAuthors.pratchett.id)!;
+    const colourOfMagic: Book = books.find(b => b.id === createdBooks.theColourOfMagic.id)!;
+    assert.ok(pratchett.books.some(book => book === colourOfMagic));
+
+    const samePratchett = await sessionOrm.getOne(authorDef, qb => qb.where("id", "=", createdAuthors.pratchett.id));
+    assert.strictEqual(samePratchett, pratchett);
+
+    const otherPratchett = await orm.getOne(authorDef, qb => qb.where("id", "=", createdAuthors.pratchett.id));
+    assert.notStrictEqual(otherPratchett, pratchett);
+
+    // Tags shared by several books are attached to each of them, with the pivot fields of their own pivot row
+    const taggedBooks = await sessionOrm.findMany(bookDef, [createdBooks.fragileThings.id, createdBooks.theColourOfMagic.id], {
+      tags: bookTags()(sessionOrm),
+      plainTags: belongsToMany(bookDef, "id", "book_tags", "book_id", "tag_id", tagDef, "id")(sessionOrm),
+    });
+    assert.deepStrictEqual(taggedBooks.map(book => book.tags.map(tag => [tag.id, tag.pivot.position]).sort()), [
+      [[createdTags.fantasy.id, 1]],
+      [[createdTags.fantasy.id, 1], [createdTags.humour.id, 2]],
+    ]);
+    assert.notStrictEqual(taggedBooks[0].tags[0], taggedBooks[1].tags.find(tag => tag.id === createdTags.fantasy.id));
+    // Without pivot fields, related entities are reused
+    const fantasy = await sessionOrm.find(tagDef, createdTags.fantasy.id);
+    assert.strictEqual(taggedBooks[0].plainTags[0], fantasy);
+    assert.strictEqual(taggedBooks[1].plainTags.find(tag => tag.id === createdTags.fantasy.id), fantasy);
+    assert.strictEqual(taggedBooks[1].plainTags.length, 2);
+
+    // Shared entities are attached by the pivot rows of each load, not the ones of earlier loads
+    const plainTags = belongsToMany(bookDef, "id", "book_tags", "book_id", "tag_id", tagDef, "id")(sessionOrm);
+    const taggedBookIds = [createdBooks.fragileThings.id, createdBooks.theColourOfMagic.id];
+    await sessionOrm.findMany(bookDef, taggedBookIds, { plainTags });
+    await orm.detach(createdBooks.fragileThings, plainTags, [createdTags.fantasy.id]);
+    try {
+      const [untagged, tagged] = await sessionOrm.findMany(bookDef, taggedBookIds, { plainTags });
+      assert.deepStrictEqual(untagged.plainTags, []);
+      assert.ok(tagged.plainTags.includes(fantasy!));
+    } finally {
+      await orm.attach(createdBooks.fragileThings, plainTags, [createdTags.fantasy.id], { position: 1 });
+    }
+
+    const comments = await sessionOrm.getMany(commentDef, qb => qb.where("commentable_type", "=", "book"), {
+      commentable: commentCommentable()(sessionOrm),
+    });
+    assert.ok(comments.length > 0);
+    for (const comment of comments) {
+      assert.strictEqual(comment.commentable, books.find(book => book.id === comment.commentable_id));
+    }
+  });
+
+  await t.test("Key chunking", async (t) => {
+    const relations = (orm: ReturnType<typeof createKyselyOrm<KyselyDB>>) => ({
+      author: bookAuthor()(orm),
+      tags: belongsToMany(bookDef, "id", "book_tags", "book_id", "tag_id", tagDef, "id", { chunkSize: 1 })(orm),
+      otherBooks: hasMany(bookDef, "author_id", bookDef, "author_id", { orderBy: [["id", "desc"]], limit: 2 })(orm),
+      comments: bookComments()(orm),
+      bookstoreBookCount: withCount(bookDef, "bookstore_id", bookDef, "bookstore_id")(orm),
+    });
+    const books = await orm.getMany(bookDef, qb => qb.orderBy("id"), relations(orm));
+
+    const chunkedOrm = createKyselyOrm(kysely, { keyChunkSize: 2, maxConcurrency: 1 });
+    const queriesBefore = executedQueries;
+    const chunkedBooks = await chunkedOrm.getMany(bookDef, qb => qb.orderBy("id"), relations(chunkedOrm));
+
+    assert.ok(executedQueries - queriesBefore > 6);
+    assert.deepStrictEqual(chunkedBooks, books);
+    assert.throws(() => createKyselyOrm(kysely, { maxConcurrency: 0 }), { name: "SnadiError" });
+  });
+
+  await t.test("Composite keys", async (t) => {
+    // Both tenants have an order with id 1
+    await orm.insert(orderDef, [
+      { tenant_id: 1, id: 1, customer: "Alice" },
+      { tenant_id: 2, id: 1, customer: "Bob" },
+      { tenant_id: 2, id: 2, customer: "Carol" },
+    ]);
+    await orm.insert(orderLineDef, [
+      { tenant_id: 1, order_id: 1, line_no: 1, product: "Good Omens" },
+      { tenant_id: 2, order_id: 1, line_no: 1, product: "Mort" },
+      { tenant_id: 2, order_id: 1, line_no: 2, product: "Sourcery" },
+      { tenant_id: 2, order_id: 1, line_no: 3, product: "Eric" },
+    ]);
+
+    const [alice, bob, carol] = await orm.getMany(orderDef, qb => qb.orderBy("tenant_id").orderBy("id"), {
+      lines: [orderLines()(orm), {
+        order: lineOrder()(orm),
+      }],
+      lineCount: orderLineCount()(orm),
+    });
+    assert.deepStrictEqual(alice.lines.map(line => line.product), ["Good Omens"]);
+    assert.deepStrictEqual(bob.lines.map(line => line.product), ["Mort", "Sourcery"]);
+    assert.deepStrictEqual(carol.lines, []);
+    assert.strictEqual(bob.lines[0].order!.customer, "Bob");
+    assert.deepStrictEqual([alice.lineCount, bob.lineCount, carol.lineCount], [1, 3, 0]);
+
+    const foundBob = await orm.find(orderDef, [2, 1], { lines: orderLines()(orm) });
+    assert.strictEqual(foundBob!.customer, "Bob");
+    assert.strictEqual(foundBob!.lines.length, 2);
+    const orders = await orm.findMany(orderDef, [[2, 2], [1, 2], [1, 1]]);
+    assert.deepStrictEqual(orders.map(order => order.customer), ["Carol", "Alice"]);
+  });
+
+  await t.test("Primary key lookups", async (t) => {
+    const book = await orm.find(bookDef, createdBooks.guardsGuards.id, { author: bookAuthor()(orm) });
+    assert.strictEqual(book!.title, "Guards! Guards!");
+    assert.strictEqual(book!.author!.name, "Terry Pratchett");
+    assert.strictEqual(await orm.find(bookDef, 0), null);
+
+    const ids = [createdBooks.theLastHero.id, 0, createdBooks.fragileThings.id, createdBooks.theLastHero.id];
+    const books = await orm.findMany(bookDef, ids, { author: bookAuthor()(orm) });
+    assert.deepStrictEqual(books.map(book => book.title), ["The Last Hero", "Fragile Things", "The Last Hero"]);
+    assert.strictEqual(books[0].author!.name, "Terry Pratchett");
+    assert.deepStrictEqual(await orm.findMany(bookDef, []), []);
+
+    const neil = await orm.findOrFail(authorDef, createdAuthors.neil.id);
+    assert.strictEqual(neil.name, "Neil Gaiman");
+    await assert.rejects(orm.findOrFail(authorDef, 0), (error) => {
+      assert.ok(error instanceof EntityNotFoundError);
+      assert.strictEqual(error.entity, "authors");
+      assert.strictEqual(error.key, 0);
+      return true;
+    });
+    const pratchett = await orm.getOneOrFail(authorDef, qb => qb.where("name", "=", "Terry Pratchett"), { books: authorBooks()(orm) });
+    assert.strictEqual(pratchett.books.length, 3);
+    await assert.rejects(orm.getOneOrFail(authorDef, qb => qb.where("name", "=", "Nobody")), { name: "EntityNotFoundError", message: "No authors found" });
+  });
+
+  await t.test("orm.paginate()", async (t) => {
+    await t.test("cursor", async (t) => {
+      const getPage = (after: string | null) => orm.paginate(bookDef, qb => qb.where("title", "!=", "Fragile Things"), {
+        first: 2,
+        after,
+        orderBy: [["title", "desc"]],
+      }, {
+        author: bookAuthor()(orm),
+      });
+      const firstPage = await getPage(null);
+      assert.strictEqual(firstPage.pageInfo.hasNextPage, true);
+      const secondPage = await getPage(firstPage.pageInfo.endCursor);
+      assert.strictEqual(secondPage.pageInfo.hasNextPage, false);
+
+      const books = [...firstPage.items, ...secondPage.items];
+      assert.deepStrictEqual(books.map(book => book.title), ["The Last Hero", "The Colour of Magic", "Guards! Guards!"]);
+      for (const book of books) {
+        assert.strictEqual(book.author!.id, book.author_id);
+      }
+
+      // The primary key makes the order unique, so books with the same author aren't skipped
+      const byAuthor = await orm.paginate(bookDef, qb => qb, { first: 2, orderBy: [["author_id", "asc"]] });
+      const byAuthorNext = await orm.paginate(bookDef, qb => qb, { first: 2, after: byAuthor.pageInfo.endCursor, orderBy: [["author_id", "asc"]] });
+      const ids = [...byAuthor.items, ...byAuthorNext.items].map(book => book.id);
+      assert.deepStrictEqual(ids, [createdBooks.fragileThings.id, createdBooks.theColourOfMagic.id, createdBooks.guardsGuards.id, createdBooks.theLastHero.id]);
+      assert.strictEqual(byAuthorNext.pageInfo.hasNextPage, false);
+
+      await assert.rejects(orm.paginate(bookDef, qb => qb, { first: 2, after: "nonsense" }));
+
+      // NULL titles sort first on SQLite, pages after a NULL cursor value still reach the titled books
+      const untitledIds = (await kysely.insertInto("books").values([{ title: null }, { title: null }] as any).returning("id").execute()).map(row => row.id);
+      const bookIds = [...untitledIds, createdBooks.guardsGuards.id, createdBooks.theLastHero.id];
+      const pageThrough = async (order: "asc" | "desc") => {
+        const books = [];
+        let after: string | null = null;
+        do {
+          const page: any = await orm.paginate(bookDef, qb => qb.where("id", "in", bookIds), { first: 1, after, orderBy: [["title", order]] });
+          books.push(...page.items);
+          after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+        } while (after != null);
+        return books.map(book => book.id);
+      };
+      assert.deepStrictEqual(await pageThrough("asc"), bookIds);
+      assert.deepStrictEqual(await pageThrough("desc"), [createdBooks.theLastHero.id, createdBooks.guardsGuards.id, ...untitledIds]);
+      await kysely.deleteFrom("books").where("id", "in", untitledIds).execute();
+    });
+
+    await t.test("offset", async (t) => {
+      const queriesBefore = executedQueries;
+      const page = await orm.paginate(bookDef, qb => qb.where("author_id", "=", createdAuthors.pratchett.id), {
+        first: 2,
+        offset: 2,
+        orderBy: [["title", "asc"]],
+      }, {
+        author: bookAuthor()(orm),
+      });
+
+      // Count, page and author queries
+      assert.strictEqual(executedQueries - queriesBefore, 3);
+      assert.strictEqual(page.total, 3);
+      assert.deepStrictEqual(page.items.map(book => book.title), ["The Last Hero"]);
+      assert.strictEqual(page.items[0].author!.id, createdAuthors.pratchett.id);
+      assert.strictEqual(page.pageInfo.hasNextPage, false);
+    });
+  });
+
+  await t.test("orm.stream()", async (t) => {
+    // Kysely's SQLite driver has a single connection and can't stream, so this one pools two connections
+    // to a copy of the database in a file, and streams rows in chunks with better-sqlite3's iterators
+    const filename = path.join(os.tmpdir(), `snadi-kysely-stream-${process.pid}.sqlite`);
+    await fs.writeFile(filename, database.serialize());
+    const fileDatabases = [new SQLite(filename), new SQLite(filename)];
+    let openStreams = 0;
+    const openStreamsByRelationQuery: number[] = [];
+    const freeConnections: DatabaseConnection[] = fileDatabases.map(fileDatabase => ({
+      executeQuery: async (query) => {
+        if (query.sql.includes('from "books"')) {
+          openStreamsByRelationQuery.push(openStreams);
+        }
+        const statement = fileDatabase.prepare(query.sql);
+        if (statement.reader) {
+          return { rows: statement.all(query.parameters) as any[] };
+        }
+        const { changes, lastInsertRowid } = statement.run(query.parameters);
+        return { rows: [], numAffectedRows: BigInt(changes), insertId: BigInt(lastInsertRowid) };
+      },
+      // The connection is busy until the iterator is done, better-sqlite3 throws if it runs another query meanwhile
+      streamQuery: async function* (query, chunkSize = 1) {
+        openStreams++;
+        try {
+          let rows: any[] = [];
+          for (const row of fileDatabase.prepare(query.sql).iterate(query.parameters)) {
+            rows.push(row);
+            if (rows.length >= chunkSize) {
+              yield { rows };
+              rows = [];
+            }
+          }
+          if (rows.length) {
+            yield { rows };
+          }
+        } finally {
+          openStreams--;
+        }
+      },
+    }));
+    const waitingForConnection: Array<(connection: DatabaseConnection) => void> = [];
+    const pooledDriver: Driver = {
+      init: async () => {},
+      acquireConnection: async () => freeConnections.pop() ?? new Promise(resolve => waitingForConnection.push(resolve)),
+      releaseConnection: async (connection) => {
+        const next = waitingForConnection.shift();
+        if (next) {
+          next(connection);
+        } else {
+          freeConnections.push(connection);
+        }
+      },
+      beginTransaction: async (connection) => { await connection.executeQuery(CompiledQuery.raw("begin")); },
+      commitTransaction: async (connection) => { await connection.executeQuery(CompiledQuery.raw("commit")); },
+      rollbackTransaction: async (connection) => { await connection.executeQuery(CompiledQuery.raw("rollback")); },
+      destroy: async () => fileDatabases.forEach(fileDatabase => fileDatabase.close()),
+    };
+    class PooledSqliteDialect extends SqliteDialect {
+      createDriver() {
+        return pooledDriver;
+      }
+    }
+    const streamKysely = new Kysely<KyselyDB>({ dialect: new PooledSqliteDialect({ database }) });
+    try {
+      const streamOrm = createKyselyOrm(streamKysely);
+
+      // Relations are loaded while the stream is still open, so they need the second connection
+      const authors = [];
+      for await (const author of streamOrm.stream(authorDef, qb => qb.orderBy("id"), { books: authorBooks()(streamOrm) }, { chunkSize: 1 })) {
+        authors.push(author);
+      }
+
+      // One relation query for each chunk of 1 author, both while the stream was open
+      assert.deepStrictEqual(openStreamsByRelationQuery, [1, 1]);
+      assert.deepStrictEqual(authors.map(author => author.id), [createdAuthors.neil.id, createdAuthors.pratchett.id]);
+      for (const author of authors) {
+        assert.ok(author instanceof Author);
+        assert.ok(author.books.length > 0);
+        assert.ok(author.books.every(book => book.author_id === author.id));
+      }
+
+      // Transactions have a single connection, which is busy with the stream
+      await streamOrm.transaction(async (trxOrm) => {
+        await assert.rejects(trxOrm.stream(authorDef, qb => qb, { books: authorBooks()(trxOrm) })[Symbol.asyncIterator]().next(), {
+          name: "SnadiError",
+          message: "stream() can't load relations within a transaction, its connection is busy streaming",
+        });
+        const streamedIds = [];
+        for await (const author of trxOrm.stream(authorDef, qb => qb.orderBy("id"))) {
+          streamedIds.push(author.id);
+        }
+        assert.deepStrictEqual(streamedIds, [createdAuthors.neil.id, createdAuthors.pratchett.id]);
+      });
+    } finally {
+      await streamKysely.destroy();
+      await fs.rm(filename, { force: true });
+    }
+  });
+
+  await t.test("Lifecycle hooks", async (t) => {
+    await orm.insert(noteDef, { body: "  Read again  ", book_id: createdBooks.guardsGuards.id });
+    await orm.insert(noteDef, [{ body: "Lend to Brigitte", book_id: createdBooks.guardsGuards.id }]);
+
+    const book = await orm.getOne(bookDef, qb => qb.where("id", "=", createdBooks.guardsGuards.id), { notes: bookNotes()(orm) });
+    assert.deepStrictEqual(book!.notes.map(note => note.body), ["Read again", "Lend to Brigitte"]);
+    assert.ok(book!.notes.every(note => note.loaded));
+    const note = book!.notes[0];
+
+    const loadedNote = await orm.getOne(noteDef, qb => qb.where("id", "=", note.id));
+    assert.strictEqual(loadedNote!.loaded, true);
+
+    await orm.transaction(async (trxOrm) => {
+      await trxOrm.update(noteDef, qb => qb.where("id", "=", note.id), { body: "Read again soon" });
+      await trxOrm.delete(noteDef, qb => qb.where("id", "=", note.id));
+    });
+
+    assert.deepStrictEqual(noteEvents, [
+      "beforeInsert",
+      "afterInsert Read again",
+      "beforeInsert",
+      "afterInsert Lend to Brigitte",
+      "beforeUpdate Read again soon",
+      "afterUpdate",
+      "beforeDelete",
+      "afterDelete",
+    ]);
+    const loggedEvents = await orm.getAll(noteEventDef);
+    assert.deepStrictEqual(loggedEvents.map(event => event.in_transaction), [0, 0, 0, 0, 1, 1, 1, 1]);
+  });
+
+  await t.test("Soft deletes", async (t) => {
+    const bookId = createdBooks.theLastHero.id;
+    const reviews = {
+      great: await fromInsert(reviewDef, await orm.insert(reviewDef, { body: "Great", book_id: bookId })),
+      meh: await fromInsert(reviewDef, await orm.insert(reviewDef, { body: "Meh", book_id: bookId })),
+    };
+
+    const deleteResult = await orm.delete(reviewDef, qb => qb.where("id", "=", reviews.meh.id));
+    assert.strictEqual(deleteResult.numDeletedRows, 1n);
+
+    const trashedRow = await kysely.selectFrom("reviews").selectAll().where("id", "=", reviews.meh.id).executeTakeFirst();
+    assert.notStrictEqual(trashedRow!.deleted_at, null);
+    assert.deepStrictEqual((await orm.getAll(reviewDef)).map(review => review.body), ["Great"]);
+    assert.strictEqual(await orm.getOne(reviewDef, qb => qb.where("id", "=", reviews.meh.id)), null);
+    const book = await orm.getOne(bookDef, qb => qb.where("id", "=", bookId), { reviews: bookReviews()(orm) });
+    assert.deepStrictEqual(book!.reviews.map(review => review.body), ["Great"]);
+
+    const trashedOrm = orm.withTrashed();
+    assert.deepStrictEqual((await trashedOrm.getAll(reviewDef)).map(review => review.body), ["Great", "Meh"]);
+    const bookWithTrashed = await trashedOrm.getOne(bookDef, qb => qb.where("id", "=", bookId), { reviews: bookReviews()(trashedOrm) });
+    assert.deepStrictEqual(bookWithTrashed!.reviews.map(review => review.body), ["Great", "Meh"]);
+    assert.deepStrictEqual((await orm.onlyTrashed().getAll(reviewDef)).map(review => review.body), ["Meh"]);
+
+    await orm.restore(reviewDef, qb => qb.where("id", "=", reviews.meh.id));
+    assert.deepStrictEqual((await orm.getAll(reviewDef)).map(review => review.body), ["Great", "Meh"]);
+
+    await orm.delete(reviewDef, qb => qb.where("id", "=", reviews.meh.id));
+    const newMeh = await fromInsert(reviewDef, await orm.insert(reviewDef, { body: "Meh", book_id: bookId }));
+    await assert.rejects(orm.restore(reviewDef, qb => qb.where("id", "=", reviews.meh.id)), (error) => {
+      assert.ok(error instanceof UniqueConstraintError);
+      assert.strictEqual(error.entity, "reviews");
+      return true;
+    });
+    await orm.forceDelete(reviewDef, qb => qb.where("id", "=", newMeh.id));
+
+    await orm.delete(reviewDef, qb => qb.where("id", "=", reviews.meh.id));
+    await orm.forceDelete(reviewDef, qb => qb.where("id", "=", reviews.meh.id));
+    // Builders only get where clauses, since soft deletes run them on an update query
+    // @ts-expect-error
+    const deleteOnlyBuilder = () => orm.delete(reviewDef, qb => qb.using("books"));
+    const remainingRows = await kysely.selectFrom("reviews").select("body").execute();
+    assert.deepStrictEqual(remainingRows.map(row => row.body), ["Great"]);
+
+    await assert.rejects(orm.restore(bookDef, qb => qb), /has no softDelete column/);
+  });
+
+  await t.test("Schema validation", async (t) => {
+    // A minimal Standard Schema implementation that requires string fields
+    const stringFields = (...fields: string[]): StandardSchemaV1 => ({
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value: any) => {
+          const issues = fields
+            .filter(field => typeof value[field] !== "string")
+            .map(field => ({ message: "Expected a string", path: [field] }));
+          return issues.length ? { issues } : { value };
+        },
+      },
+    });
+
+    const validatedBookDef = {
+      ...bookDef,
+      schema: stringFields("title"),
+      insertSchema: stringFields("title"),
+      updateSchema: stringFields("title"),
+    } satisfies SnadiKyselyEntityDefinition;
+
+    const books = await orm.getAll(validatedBookDef);
+    assert.strictEqual(books.length, Object.keys(createdBooks).length);
+    // Pivot aliases are left out of validation
+    const fantasy = await orm.getOne(tagDef, qb => qb.where("id", "=", createdTags.fantasy.id), {
+      books: belongsToMany(tagDef, "id", "book_tags", "tag_id", "book_id", validatedBookDef, "id", { pivotColumns: ["position"] })(orm),
+    });
+    assert.deepStrictEqual(fantasy!.books.map(book => book.pivot), [{ position: 1 }, { position: 1 }]);
+
+    await assert.rejects(orm.insert(validatedBookDef, { title: 42 as any }), { entity: "books", relationPath: null, field: "title" });
+    await assert.rejects(orm.update(validatedBookDef, qb => qb.where("id", "=", 0), {}), { field: "title" });
+
+    await orm.insert(bookDef, { title: null as any, author_id: createdAuthors.neil.id });
+    try {
+      await assert.rejects(
+        orm.getMany(authorDef, qb => qb.where("id", "=", createdAuthors.neil.id), {
+          books: hasMany(authorDef, "id", validatedBookDef, "author_id")(orm),
+        }),
+        (error) => {
+          assert.ok(error instanceof ValidationError);
+          assert.strictEqual(error.message, "Invalid books (relation books, field title): Expected a string");
+          return true;
+        },
+      );
+      await assert.rejects(orm.getAll(validatedBookDef), { relationPath: null, field: "title" });
+    } finally {
+      await kysely.deleteFrom("books").where("title", "is", null).execute();
+    }
+  });
+
+  await t.test("Errors", async (t) => {
+    await assert.rejects(orm.insert(bookDetailsDef, { book_id: createdBooks.fragileThings.id, isbn: "0-06-051522-8" }), (error) => {
+      assert.ok(error instanceof UniqueConstraintError);
+      assert.strictEqual(error.entity, "book_details");
+      return true;
+    });
+
+    await assert.rejects(
+      orm.getMany(authorDef, qb => qb.where("id", "=", createdAuthors.pratchett.id), {
+        books: [authorBooks()(orm), {
+          details: hasOne(bookDef, "id", bookDetailsDef, "book_id", { query: qb => qb.where("no_such_column" as any, "=", 1) })(orm),
+        }],
+      }),
+      (error) => {
+        assert.ok(error instanceof RelationLoadError);
+        assert.strictEqual(error.relationPath, "books.details");
+        return true;
+      },
+    );
+
+    const failingBookDef = {
+      ...bookDef,
+      toEntity: (data: Book) => {
+        if (data.title === "Guards! Guards!") {
+          throw new Error("No guards");
+        }
+        return bookDef.toEntity(data);
+      },
+    } satisfies SnadiKyselyEntityDefinition;
+    await assert.rejects(orm.getMany(failingBookDef, qb => qb.orderBy("id")), { name: "MappingError", entity: "books", rowIndex: 2 });
+  });
+
+  await t.test("orm.createMany()", async (t) => {
+    const tags = await orm.createMany(tagDef, [{ name: "Satire" }, { name: "Horror" }], { books: tagBooks()(orm) });
+    assert.deepStrictEqual(tags.map(tag => tag.name), ["Satire", "Horror"]);
+    assert.ok(tags.every(tag => tag instanceof Tag && typeof tag.id === "number"));
+    assert.deepStrictEqual(tags.map(tag => tag.books), [[], []]);
+    assert.deepStrictEqual(await orm.createMany(tagDef, []), []);
+    // Entities are only returned for definitions with a primary key
+    const { primaryKey, ...commentDefWithoutKey } = commentDef;
+    assert.strictEqual(await orm.createMany(commentDefWithoutKey, []), null);
+
+    // MySQL has no RETURNING, inserted rows are selected again by primary key or insert id
+    class NoReturningSqliteAdapter extends SqliteAdapter {
+      get supportsReturning() {
+        return false;
+      }
+    }
+    class NoReturningSqliteDialect extends SqliteDialect {
+      createAdapter() {
+        return new NoReturningSqliteAdapter();
+      }
+    }
+    const queries: string[] = [];
+    const noReturningOrm = createKyselyOrm(new Kysely<KyselyDB>({
+      dialect: new NoReturningSqliteDialect({ database }),
+      log: event => { queries.push(event.query.sql); },
+    }));
+    const crime = await noReturningOrm.create(tagDef, { name: "Crime" });
+    assert.strictEqual(crime.name, "Crime");
+    assert.deepStrictEqual(await orm.find(tagDef, crime.id), crime);
+    const numberedTags = await noReturningOrm.createMany(tagDef, [{ id: 101, name: "Western" }, { id: 100, name: "Poetry" }]);
+    assert.deepStrictEqual(numberedTags.map(tag => tag.name), ["Western", "Poetry"]);
+    // Only rows without a key of their own get generated ids
+    const mixedTags = await noReturningOrm.createMany(tagDef, [{ id: 1000, name: "Noir" }, { name: "Cosy" }]);
+    assert.deepStrictEqual(mixedTags.map(tag => [tag.id, tag.name]), [[1000, "Noir"], [1001, "Cosy"]]);
+    assert.ok(queries.every(sql => ! sql.includes("returning")));
+
+    await kysely.deleteFrom("tags").where("name", "in", ["Satire", "Horror", "Crime", "Western", "Poetry", "Noir", "Cosy"]).execute();
+  });
+
+  await t.test("orm.upsert()", async (t) => {
+    const detailsBook = () => hasOne(bookDetailsDef, "book_id", bookDef, "id");
+    const details = await orm.upsert(bookDetailsDef, [
+      { book_id: createdBooks.guardsGuards.id, isbn: "0-575-04296-4" },
+      { book_id: createdBooks.fragileThings.id, isbn: "978-0-06-051522-1", id: 0 },
+    ], { conflict: ["book_id"], update: ["isbn"] }, { book: detailsBook()(orm) });
+    assert.deepStrictEqual(details.map(detail => detail.book!.title), ["Guards! Guards!", "Fragile Things"]);
+    assert.ok(details.every(detail => detail instanceof BookDetails));
+    // Only the listed columns are updated
+    assert.strictEqual(details[1].id, createdBookDetails.fragileThings.id);
+    assert.strictEqual(details[1].isbn, "978-0-06-051522-1");
+    assert.deepStrictEqual(await orm.upsert(bookDetailsDef, [], { conflict: ["book_id"], update: "all" }), []);
+
+    // MySQL uses ON DUPLICATE KEY UPDATE. SQLite can't run it, so only the compiled query is checked.
+    class MysqlSyntaxDialect extends SqliteDialect {
+      createAdapter() {
+        return new MysqlAdapter();
+      }
+    }
+    const queries: string[] = [];
+    const mysqlOrm = createKyselyOrm(new Kysely<KyselyDB>({
+      dialect: new MysqlSyntaxDialect({ database }),
+      log: event => { queries.push(event.query.sql); },
+    }));
+    await assert.rejects(mysqlOrm.upsert(bookDetailsDef, { ...createdBookDetails.fragileThings }, { conflict: ["book_id"], update: "all" }));
+    assert.match(queries[0] ?? "", /on duplicate key update "id" = values\("id"\), "book_id" = values\("book_id"\), "isbn" = values\("isbn"\)/);
+
+    await kysely.updateTable("book_details").set({ isbn: createdBookDetails.fragileThings.isbn }).where("book_id", "=", createdBooks.fragileThings.id).execute();
+    await kysely.deleteFrom("book_details").where("book_id", "=", createdBooks.guardsGuards.id).execute();
+  });
+
+  await t.test("orm.insertGraph()", async (t) => {
+    const relations = { books: [authorBooks()(orm), { details: bookBookDetails()(orm) }] } satisfies RelationsToLoad;
+    const author = await orm.insertGraph(authorDef, {
+      name: "Ursula K. Le Guin",
+      books: [
+        { title: "A Wizard of Earthsea", details: { isbn: "0-395-27653-7" } },
+        { title: "The Dispossessed" },
+      ],
+    }, relations);
+    assert.ok(author instanceof Author);
+    assert.deepStrictEqual(author.books.map(book => book.title), ["A Wizard of Earthsea", "The Dispossessed"]);
+    assert.ok(author.books.every(book => book.author_id === author.id));
+    assert.strictEqual(author.books[0].details!.book_id, author.books[0].id);
+    // Relations without data are left out
+    assert.strictEqual(author.books[1].details, undefined);
+    const loaded = await orm.findOrFail(authorDef, author.id, relations);
+    assert.deepStrictEqual(loaded.books.map(book => book.details?.isbn ?? null), ["0-395-27653-7", null]);
+
+    // Entities of relations joining on their primary key are inserted first
+    const book = await orm.insertGraph(bookDef, { title: "Good Omens", author: { name: "Terry Pratchett & Neil Gaiman" } }, { author: bookAuthor()(orm) });
+    assert.strictEqual(book.author!.name, "Terry Pratchett & Neil Gaiman");
+    assert.strictEqual(book.author_id, book.author!.id);
+
+    // The graph is inserted in a transaction
+    const failingGraph = orm.insertGraph(authorDef, {
+      name: "Nobody",
+      books: [{ title: "Nothing", details: { id: createdBookDetails.fragileThings.id } }],
+    }, relations);
+    await assert.rejects(failingGraph, UniqueConstraintError);
+    assert.strictEqual(await orm.getOne(authorDef, qb => qb.where("name", "=", "Nobody")), null);
+    await assert.rejects(orm.insertGraph(bookDef, { title: "Nothing", tags: [] }, { tags: bookTags()(orm) }), {
+      name: "SnadiError",
+      message: "Relation tags can't be inserted, only hasOne and hasMany relations can",
+    });
+
+    const bookIds = [...author.books.map(book => book.id), book.id];
+    await kysely.deleteFrom("book_details").where("book_id", "in", bookIds).execute();
+    await kysely.deleteFrom("books").where("id", "in", bookIds).execute();
+    await kysely.deleteFrom("authors").where("id", "in", [author.id, book.author!.id]).execute();
+  });
+
+  await t.test("orm.deleteCascade()", async (t) => {
+    const cascade = {
+      books: [hasMany(authorDef, "id", bookDef, "author_id", { onDelete: "cascade" })(orm), {
+        details: hasOne(bookDef, "id", bookDetailsDef, "book_id", { onDelete: "cascade" })(orm),
+      }],
+    } satisfies RelationsToLoad;
+    const author = await orm.insertGraph(authorDef, {
+      name: "Iain M. Banks",
+      books: [{ title: "Consider Phlebas", details: { isbn: "0-333-44138-7" } }, { title: "Excession" }],
+    }, cascade);
+    const bookIds = author.books.map(book => book.id);
+
+    // Restricted relations keep everything in place
+    const restrict = { books: hasMany(authorDef, "id", bookDef, "author_id", { onDelete: "restrict" })(orm) };
+    await assert.rejects(orm.deleteCascade(authorDef, qb => qb.where("id", "=", author.id), restrict), (error) => {
+      assert.ok(error instanceof RestrictedDeleteError);
+      assert.strictEqual(error.message, "Can't delete authors, relation books still has 2 related entities");
+      return true;
+    });
+    assert.strictEqual((await orm.findMany(bookDef, bookIds)).length, 2);
+
+    await orm.deleteCascade(authorDef, qb => qb.where("id", "=", author.id), cascade);
+    assert.strictEqual(await orm.find(authorDef, author.id), null);
+    assert.deepStrictEqual(await orm.findMany(bookDef, bookIds), []);
+    assert.strictEqual(await orm.getOne(bookDetailsDef, qb => qb.where("book_id", "=", bookIds[0])), null);
+
+    const orphan = await orm.insertGraph(bookDef, { title: "The Player of Games", author: { name: "Culture" } }, { author: bookAuthor()(orm) });
+    await orm.deleteCascade(authorDef, qb => qb.where("id", "=", orphan.author_id), {
+      books: hasMany(authorDef, "id", bookDef, "author_id", { onDelete: "setNull" })(orm),
+    });
+    assert.strictEqual((await orm.findOrFail(bookDef, orphan.id)).author_id, null);
+    await kysely.deleteFrom("books").where("id", "=", orphan.id).execute();
+
+    // Relations pointing at a parent entity can't cascade, the parent's other children would be left dangling
+    const parented = await orm.insertGraph(bookDef, { title: "Use of Weapons", author: { name: "Banks" } }, { author: bookAuthor()(orm) });
+    await assert.rejects(orm.deleteCascade(bookDef, qb => qb.where("id", "=", parented.id), { author: bookAuthor()(orm) }), {
+      name: "SnadiError",
+      message: "Relation author can't cascade deletes, it refers to the primary key of authors",
+    });
+    assert.ok(await orm.find(bookDef, parented.id));
+    assert.ok(await orm.find(authorDef, parented.author_id));
+    await kysely.deleteFrom("books").where("id", "=", parented.id).execute();
+    await kysely.deleteFrom("authors").where("id", "=", parented.author_id).execute();
+
+    // The builder also runs on a select query, so it only gets where clauses
+    // @ts-expect-error
+    const selectOnlyBuilder = () => orm.deleteCascade(authorDef, qb => qb.selectAll(), {});
+  });
+
+  await t.test("Pivot operations", async (t) => {
+    const book = createdBooks.theLastHero;
+    const tags = bookTags()(orm);
+    const getTags = async () => (await orm.findOrFail(bookDef, book.id, { tags })).tags;
+
+    await orm.attach(book, tags, [createdTags.fantasy.id], { position: 1 });
+    assert.deepStrictEqual((await getTags()).map(tag => [tag.name, tag.pivot.position]), [["Fantasy", 1]]);
+    await assert.rejects(orm.attach(book, tags, [createdTags.fantasy.id]), (error) => {
+      assert.ok(error instanceof UniqueConstraintError);
+      assert.strictEqual(error.entity, "book_tags");
+      return true;
+    });
+
+    // sync() only attaches and detaches what changed
+    const synced = await orm.sync(book, tags, [createdTags.humour.id, createdTags.unused.id, createdTags.humour.id]);
+    assert.deepStrictEqual(synced, { attached: [createdTags.humour.id, createdTags.unused.id], detached: [createdTags.fantasy.id] });
+    assert.deepStrictEqual(await orm.sync(book, tags, [createdTags.unused.id, createdTags.humour.id]), { attached: [], detached: [] });
+
+    await orm.detach(book, tags, [createdTags.unused.id]);
+    assert.deepStrictEqual((await getTags()).map(tag => tag.name), ["Humour"]);
+    await orm.detach(book, tags, []);
+    assert.strictEqual((await getTags()).length, 1);
+    await orm.detach(book, tags);
+    assert.deepStrictEqual(await getTags(), []);
+
+    await assert.rejects(orm.attach(createdAuthors.neil, authorBooks()(orm), [book.id]), {
+      name: "SnadiError",
+      message: "Relation to books has no pivot table, only belongsToMany relations have one",
+    });
+  });
+
+  await t.test("Optimistic locking", async (t) => {
+    const draft = await orm.create(draftDef, { title: "Untitled" });
+    assert.strictEqual(draft.version, 1);
+
+    const result = await orm.update(draftDef, qb => qb.where("id", "=", draft.id), { title: "Mort", version: draft.version });
+    assert.strictEqual(result.numUpdatedRows, 1n);
+    assert.deepStrictEqual({ ...await orm.find(draftDef, draft.id) }, { ...draft, title: "Mort", version: 2 });
+
+    // The other editor still has version 1
+    await assert.rejects(orm.update(draftDef, qb => qb.where("id", "=", draft.id), { title: "Sourcery", version: draft.version }), (error) => {
+      assert.ok(error instanceof StaleEntityError);
+      assert.strictEqual(error.entity, "drafts");
+      assert.strictEqual(error.expectedVersion, 1);
+      return true;
+    });
+    await assert.rejects(orm.update(draftDef, qb => qb.where("id", "=", draft.id), { title: "Sourcery" }), {
+      name: "SnadiError",
+      message: "Updates of drafts need the expected version",
+    });
+    assert.strictEqual((await orm.findOrFail(draftDef, draft.id)).title, "Mort");
+  });
+
+  await t.test("Timestamps", async (t) => {
+    draftClock = "2024-01-01T00:00:00.000Z";
+    const [draft, imported] = await orm.createMany(draftDef, [{ title: "Eric" }, { title: "Pyramids", created_at: "1989-06-15T00:00:00.000Z" }]);
+    assert.strictEqual(draft.created_at, "2024-01-01T00:00:00.000Z");
+    assert.strictEqual(draft.updated_at, "2024-01-01T00:00:00.000Z");
+    // Given timestamps are kept on inserts
+    assert.strictEqual(imported.created_at, "1989-06-15T00:00:00.000Z");
+
+    draftClock = "2024-01-02T00:00:00.000Z";
+    await orm.update(draftDef, qb => qb.where("id", "=", draft.id), { title: "Faust Eric", version: draft.version });
+    const updated = await orm.findOrFail(draftDef, draft.id);
+    assert.strictEqual(updated.created_at, "2024-01-01T00:00:00.000Z");
+    assert.strictEqual(updated.updated_at, "2024-01-02T00:00:00.000Z");
+
+    draftClock = "2024-01-03T00:00:00.000Z";
+    const upserted = await orm.upsert(draftDef, { id: draft.id, title: "Eric" }, { conflict: ["id"], update: "all" });
+    assert.strictEqual(upserted.created_at, "2024-01-01T00:00:00.000Z");
+    assert.strictEqual(upserted.updated_at, "2024-01-03T00:00:00.000Z");
+  });
+
+  await t.test("orm.save()", async (t) => {
+    const created = await orm.create(draftDef, { title: "Small Gods" });
+    const draft = await orm.findOrFail(draftDef, created.id);
+    const otherCopy = await orm.findOrFail(draftDef, created.id);
+    assert.strictEqual(await orm.save(draft), false);
+
+    // Only changed fields are written, so other writes aren't overwritten
+    await kysely.updateTable("drafts").set({ created_at: "1992-01-01T00:00:00.000Z" }).where("id", "=", created.id).execute();
+    draft.title = "Lords and Ladies";
+    draftClock = "2024-02-01T00:00:00.000Z";
+    assert.strictEqual(await orm.save(draft), true);
+    assert.strictEqual(draft.version, 2);
+    // The written timestamp is kept in the entity and its snapshot
+    assert.strictEqual(draft.updated_at, "2024-02-01T00:00:00.000Z");
+    assert.strictEqual(await orm.save(draft), false);
+    const saved = await orm.findOrFail(draftDef, created.id);
+    assert.deepStrictEqual([saved.title, saved.version, saved.created_at], ["Lords and Ladies", 2, "1992-01-01T00:00:00.000Z"]);
+
+    otherCopy.title = "Witches Abroad";
+    await assert.rejects(orm.save(otherCopy), StaleEntityError);
+    await assert.rejects(orm.save({ ...draft }), { name: "SnadiError" });
+
+    // Pivot fields of belongsToMany relations aren't columns of the entity
+    const book = await orm.getOne(bookDef, qb => qb.where("id", "=", createdBooks.fragileThings.id), { tags: bookTags()(orm) });
+    book!.tags[0].pivot.position = 5;
+    assert.strictEqual(await orm.save(book!.tags[0]), false);
+
+    // The primary key finds the row to update, so changing it would update another row
+    const movedBook = await orm.findOrFail(bookDef, createdBooks.fragileThings.id);
+    movedBook.id = createdBooks.guardsGuards.id;
+    movedBook.title = "Renamed";
+    await assert.rejects(orm.save(movedBook), {
+      name: "SnadiError",
+      message: "Primary key id of books changed since it was loaded, it can't be saved",
+    });
+    assert.strictEqual((await orm.findOrFail(bookDef, createdBooks.guardsGuards.id)).title, createdBooks.guardsGuards.title);
+  });
+
+  await t.test("Query events", async (t) => {
+    const queryEvents: QueryEvent[] = [];
+    const relationLoadEvents: RelationLoadEvent[] = [];
+    const eventOrm = createKyselyOrm(kysely, {
+      onQuery: event => queryEvents.push(event),
+      onRelationLoad: event => relationLoadEvents.push(event),
+    });
+    const relations = (orm: SnadiKyselyOrm<KyselyDB>) => ({
+      books: [bookstoreBooks()(orm), {
+        author: bookAuthor()(orm),
+        tags: bookTags()(orm),
+      }],
+    } satisfies RelationsToLoad);
+    const bookstores = await eventOrm.getMany(bookstoreDef, qb => qb.orderBy("id"), relations(eventOrm));
+    const books = bookstores.flatMap(bookstore => bookstore.books);
+    const authorIds = new Set(books.flatMap(book => book.author ? [book.author.id] : []));
+    const tagCount = books.flatMap(book => book.tags).length;
+
+    const byPath = (a: { relationPath: string | null }, b: { relationPath: string | null }) => (a.relationPath ?? "").localeCompare(b.relationPath ?? "");
+    assert.deepStrictEqual(queryEvents.sort(byPath).map(({ table, relationPath, rowCount }) => ({ table, relationPath, rowCount })), [
+      { table: "bookstores", relationPath: null, rowCount: bookstores.length },
+      { table: "books", relationPath: "books", rowCount: books.length },
+      { table: "authors", relationPath: "books.author", rowCount: authorIds.size },
+      { table: "tags", relationPath: "books.tags", rowCount: tagCount },
+    ]);
+    assert.match(queryEvents[0].sql, /from "bookstores"/);
+    assert.ok(queryEvents.every(event => event.durationMs >= 0));
+    assert.deepStrictEqual(relationLoadEvents.sort(byPath).map(({ durationMs, ...event }) => event), [
+      { table: "books", relationPath: "books", keyCount: bookstores.length, rowCount: books.length },
+      { table: "authors", relationPath: "books.author", keyCount: authorIds.size, rowCount: authorIds.size },
+      { table: "tags", relationPath: "books.tags", keyCount: books.length, rowCount: tagCount },
+    ]);
+
+    // Spans of an in-memory tracer
+    const spanNames: string[] = [];
+    const tracedOrm = createKyselyOrm(kysely, tracingListeners({
+      startSpan: (name) => {
+        spanNames.push(name);
+        return { end: () => {} };
+      },
+    }));
+    await tracedOrm.getMany(bookstoreDef, qb => qb.orderBy("id"), relations(tracedOrm));
+    assert.deepStrictEqual(spanNames.sort(), [
+      "snadi.query authors",
+      "snadi.query books",
+      "snadi.query bookstores",
+      "snadi.query tags",
+      "snadi.relation books",
+      "snadi.relation books.author",
+      "snadi.relation books.tags",
+    ]);
+
+    // Writes and failed queries are reported too
+    queryEvents.length = 0;
+    const bookstore = await eventOrm.create(bookstoreDef, { name: "Events" });
+    await eventOrm.update(bookstoreDef, qb => qb.where("id", "=", bookstore.id), { name: "Reported events" });
+    await assert.rejects(eventOrm.create(bookstoreDef, { id: bookstore.id, name: "Duplicate" }), UniqueConstraintError);
+    await eventOrm.forceDelete(bookstoreDef, qb => qb.where("id", "=", bookstore.id));
+    assert.deepStrictEqual(queryEvents.map(({ table, sql, rowCount, error }) => ({ table, statement: sql.split(" ")[0], rowCount, failed: error != null })), [
+      { table: "bookstores", statement: "insert", rowCount: 1, failed: false },
+      { table: "bookstores", statement: "update", rowCount: 1, failed: false },
+      { table: "bookstores", statement: "insert", rowCount: 0, failed: true },
+      { table: "bookstores", statement: "delete", rowCount: 1, failed: false },
+    ]);
+  });
+
   await t.test("orm.update()", async (t) => {
     await orm.update(bookstoreDef, qb => qb.where("id", "=", createdBookstores.noBooks.id), {
       name: "Some books",
@@ -1,21 +1,45 @@
-import { EntityDefinition, ManyRelationship, MappableInputType, MappableOutputType, OneRelationship, RelationsToLoad, WithLoadedRelations, loadRelationsForArray, loadRelationsForEntity, mapArrayToEntity, mapToEntity } from "@snadi/core";
-import { DeleteQueryBuilder, DeleteResult, InsertQueryBuilder, InsertResult, Kysely, SelectQueryBuilder, TransactionBuilder, UpdateQueryBuilder, UpdateResult, sql } from "kysely";
+import { AggregateRelationship, BaseRelationship, BatchContext, EntityDefinition, EntityNotFoundError, IdentityMap, InsertGraphInput, KeyFields, ManyRelationship, MappableInputType, MappableOutputType, OnDeleteRule, OneRelationship, Page, PaginationOptions, PrimaryKeyValue, QueryEvent, RelationLoadEvent, RelationsToLoad, RestrictedDeleteError, SnadiError, Timestamps, StaleEntityError, SyncResult, LoadRelationsOptions, WithLazyRelations, WithLoadedRelations, StandardSchemaV1, changedFields, checkMaxConcurrency, decodeCursor, encodeCursor, keyValue, loadRelationsForArray, loadRelationsForEntity, insertEntityGraph, mapArrayToEntity, mapToEntity, normalizeDriverError, passthroughSchema, pivotOtherKey, pivotOtherValues, pivotRow, pivotTableOf, refersToParent, toKeyFields, toKeyValues, upsertColumns, uniqueOrderBy, validateWithSchema, snapshotEntity, withLazyRelations, withTimestamps } from "@snadi/core";
+import { CompiledQuery, DeleteQueryBuilder, DeleteResult, InsertQueryBuilder, InsertResult, Kysely, MysqlAdapter, PostgresAdapter, SelectQueryBuilder, SqliteAdapter, TransactionBuilder, UpdateQueryBuilder, UpdateResult, WhereInterface, sql } from "kysely";
 
 type Awaitable<T> = T | Promise<T>;
 
 export type SnadiKyselyEntityDefinition = EntityDefinition & {
   tableName: string;
+  primaryKey?: KeyFields;
   toInsert: (data: any) => Awaitable<any>;
   toUpdate: (data: any) => Awaitable<any>;
+  // Validate the data passed to insert() and update() before toInsert() and toUpdate()
+  insertSchema?: StandardSchemaV1;
+  updateSchema?: StandardSchemaV1;
+  // Lifecycle hooks receive the ORM instance running the operation, which is the transaction one within transaction()
+  beforeInsert?: (row: any, orm: SnadiKyselyOrm<any>) => Awaitable<void>;
+  afterInsert?: (row: any, orm: SnadiKyselyOrm<any>) => Awaitable<void>;
+  beforeUpdate?: (fields: any, builder: (qb: any) => any, orm: SnadiKyselyOrm<any>) => Awaitable<void>;
+  afterUpdate?: (fields: any, builder: (qb: any) => any, orm: SnadiKyselyOrm<any>) => Awaitable<void>;
+  beforeDelete?: (builder: (qb: any) => any, orm: SnadiKyselyOrm<any>) => Awaitable<void>;
+  afterDelete?: (builder: (qb: any) => any, orm: SnadiKyselyOrm<any>) => Awaitable<void>;
+  afterLoad?: (entity: any, orm: SnadiKyselyOrm<any>) => Awaitable<void>;
+  // delete() sets this column to the current time instead of removing rows, and trashed rows are left out of loads
+  softDelete?: { column: string };
+  // update() only changes rows that still have the version given in its data, and increments it
+  version?: string;
+  // Columns filled in with the clock's time on inserts, and on updates for updatedAt
+  timestamps?: Timestamps;
 };
 
 export type ValidSnadiKyselyEntityDefinition<DB> = SnadiKyselyEntityDefinition & {
   tableName: keyof DB & string;
 };
 
+// Inserted entities are only returned for entity definitions with a primary key, so they can be selected again on MySQL
+type CreateResult<EntityDef extends SnadiKyselyEntityDefinition, Result> = EntityDef["primaryKey"] extends KeyFields ? Result : null;
+
 export type InsertInput<EntityDef extends SnadiKyselyEntityDefinition> = EntityDef["toInsert"] extends (data: infer I) => any ? I : never;
 export type UpdateInput<EntityDef extends SnadiKyselyEntityDefinition> = EntityDef["toUpdate"] extends (data: infer I) => any ? I : never;
 
+// A field of the entity, or a tuple of fields for composite keys
+export type KeyField<EntityDef extends EntityDefinition> = keyof MappableOutputType<EntityDef> | Array<keyof MappableOutputType<EntityDef>>;
+
 export type EntitiesToKyselyDatabase<Entities extends SnadiKyselyEntityDefinition> = {
   [Entity in Entities as Entity["tableName"]]: MappableInputType<Entity>;
 };
@@ -24,11 +48,77 @@ function asyncMap<T, O>(arr: T[], fn: (t: T) => O): Promise<O[]> {
   return Promise.all(arr.map(fn));
 }
 
+export type SnadiKyselyOrmOptions = {
+  // Coalesces relation loads issued in the same tick, see withBatching()
+  batchContext?: BatchContext;
+  // Reuses already loaded entity instances, see withIdentityMap()
+  identityMap?: IdentityMap;
+  // Default maximum number of keys per relation query, relations can override it with their chunkSize option
+  keyChunkSize?: number;
+  // Maximum number of relation queries to run at the same time
+  maxConcurrency?: number;
+  // Whether soft deleted rows are loaded as well, see withTrashed() and onlyTrashed()
+  trashed?: "with" | "only";
+  // Called after each query, including writes, streams and failed queries with their error,
+  // e.g. with tracingListeners() from @snadi/core
+  onQuery?: (event: QueryEvent) => void;
+  // Called after each relation load with the relation path, see loadRelationsForArray()
+  onRelationLoad?: (event: RelationLoadEvent) => void;
+};
+
+// Conditions of delete(), forceDelete() and deleteCascade(). Soft deletes run them on an update query and deleteCascade()
+// on a select query as well, so they only get the where clauses all of these have in common.
+export type WhereBuilder<DB, TB extends keyof DB> = (qb: WhereInterface<DB, TB>) => WhereInterface<DB, TB>;
+
+export type StreamOptions = {
+  // Number of entities to map and load relations for at a time, also passed on to Kysely's stream()
+  chunkSize?: number;
+};
+
+export type UpsertOptions<Table = any> = {
+  // Columns of the unique constraint that detects existing rows. MySQL uses any unique key instead.
+  conflict: Array<keyof Table & string>;
+  // Columns to overwrite with the inserted values when the row already exists
+  update: Array<keyof Table & string> | "all";
+};
+
 export class SnadiKyselyOrm<DB> {
   kysely: Kysely<DB>;
+  options: SnadiKyselyOrmOptions;
 
-  constructor(kysely: Kysely<DB>) {
+  constructor(kysely: Kysely<DB>, options: SnadiKyselyOrmOptions = {}) {
     this.kysely = kysely;
+    this.options = options;
+    checkMaxConcurrency(options.maxConcurrency);
+  }
+
+  // Returns an ORM instance with its own batch context, meant to be created once per request
+  withBatching(): SnadiKyselyOrm<DB> {
+    return new SnadiKyselyOrm(this.kysely, { ...this.options, batchContext: new BatchContext() });
+  }
+
+  // Returns an ORM instance that maps each row to a single entity instance for as long as the identity map is used
+  withIdentityMap(identityMap: IdentityMap = new IdentityMap()): SnadiKyselyOrm<DB> {
+    return new SnadiKyselyOrm(this.kysely, { ...this.options, identityMap });
+  }
+
+  // Returns an ORM instance whose loads and relations include soft deleted rows
+  withTrashed(): SnadiKyselyOrm<DB> {
+    return this.withTrashedOption("with");
+  }
+
+  // Returns an ORM instance whose loads and relations only include soft deleted rows
+  onlyTrashed(): SnadiKyselyOrm<DB> {
+    return this.withTrashedOption("only");
+  }
+
+  private withTrashedOption(trashed: SnadiKyselyOrmOptions["trashed"]): SnadiKyselyOrm<DB> {
+    // Loads of trashed rows must not be batched together with loads that leave them out
+    return new SnadiKyselyOrm(this.kysely, {
+      ...this.options,
+      batchContext: this.options.batchContext && new BatchContext(),
+      trashed,
+    });
   }
 
   async getAll<
@@ -40,7 +130,7 @@ export class SnadiKyselyOrm<DB> {
   ) {
     return this.loadMany(
       entityDef,
-      this.kysely.selectFrom(entityDef.tableName).selectAll().execute(),
+      runQuery(this, entityDef.tableName, selectFrom(this, entityDef).selectAll()),
       relations,
     );
   }
@@ -54,7 +144,7 @@ export class SnadiKyselyOrm<DB> {
   ) {
     return this.loadMany(
       entityDef,
-      builder(this.kysely.selectFrom(entityDef.tableName).selectAll(entityDef.tableName as any) as SelectQueryBuilder<DB, EntityDef["tableName"], {}>).execute(),
+      runQuery(this, entityDef.tableName, builder(selectFrom(this, entityDef).selectAll(entityDef.tableName) as SelectQueryBuilder<DB, EntityDef["tableName"], {}>)),
       relations,
     );
   }
@@ -69,26 +159,393 @@ export class SnadiKyselyOrm<DB> {
   ) {
     return this.loadOne(
       entityDef,
-      builder(this.kysely.selectFrom(entityDef.tableName).selectAll(entityDef.tableName as any) as SelectQueryBuilder<DB, EntityDef["tableName"], {}>).executeTakeFirst(),
+      runQuery(this, entityDef.tableName, builder(selectFrom(this, entityDef).selectAll(entityDef.tableName) as SelectQueryBuilder<DB, EntityDef["tableName"], {}>)).then(rows => rows[0]),
       relations,
     );
   }
 
+  // Like getOne(), but throws an EntityNotFoundError instead of returning null
+  async getOneOrFail<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    Relations extends RelationsToLoad | undefined,
+  >(
+    entityDef: EntityDef,
+    builder: (qb: SelectQueryBuilder<DB, EntityDef["tableName"], {}>) => SelectQueryBuilder<DB, EntityDef["tableName"], {}>,
+    relations?: Relations,
+  ): Promise<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>> {
+    const entity = await this.getOne(entityDef, builder, relations);
+    if (entity == null) {
+      throw new EntityNotFoundError(entityDef.tableName);
+    }
+    return entity;
+  }
+
+  // Gets the entity with the given primary key, a tuple of values for composite keys
+  async find<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    Relations extends RelationsToLoad | undefined,
+  >(
+    entityDef: EntityDef,
+    key: PrimaryKeyValue<EntityDef>,
+    relations?: Relations,
+  ): Promise<WithLoadedRelations<MappableOutputType<EntityDef>, Relations> | null> {
+    const primaryKey = primaryKeyColumns(entityDef);
+    return this.getOne(entityDef, qb => whereKeys(this, qb, primaryKey, [toKeyValues(entityDef.primaryKey!, key)]), relations);
+  }
+
+  // Gets the entities with the given primary keys in the order of the keys. Keys without an entity are left out.
+  async findMany<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    Relations extends RelationsToLoad | undefined,
+  >(
+    entityDef: EntityDef,
+    keys: Array<PrimaryKeyValue<EntityDef>>,
+    relations?: Relations,
+  ): Promise<Array<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>> {
+    const primaryKey = primaryKeyColumns(entityDef);
+    const fields = toKeyFields(entityDef.primaryKey!);
+    const keyRows = keys.map(key => {
+      const values = toKeyValues(entityDef.primaryKey!, key);
+      return Object.fromEntries(fields.map((field, i) => [field, values[i]]));
+    });
+    const rows = await loadInChunks(this, distinctKeys(keyRows, fields), undefined, (chunk) => {
+      return runQuery(this, entityDef.tableName, whereKeys(this, selectFrom(this, entityDef), primaryKey, chunk).selectAll(entityDef.tableName));
+    });
+    const entities = await this.loadMany(entityDef, rows, relations);
+    const entitiesByKey = new Map(rows.map((row, i) => [keyValue(row, fields), entities[i]]));
+    return keyRows.flatMap((keyRow) => {
+      const key = keyValue(keyRow, fields);
+      return entitiesByKey.has(key) ? [entitiesByKey.get(key)!] : [];
+    });
+  }
+
+  // Like find(), but throws an EntityNotFoundError instead of returning null
+  async findOrFail<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    Relations extends RelationsToLoad | undefined,
+  >(
+    entityDef: EntityDef,
+    key: PrimaryKeyValue<EntityDef>,
+    relations?: Relations,
+  ): Promise<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>> {
+    const entity = await this.find(entityDef, key, relations);
+    if (entity == null) {
+      throw new EntityNotFoundError(entityDef.tableName, key);
+    }
+    return entity;
+  }
+
+  // Like getMany(), but relations are only loaded when accessed through $load()
+  async getManyLazy<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    Relations extends RelationsToLoad,
+  >(
+    entityDef: EntityDef,
+    builder: (qb: SelectQueryBuilder<DB, EntityDef["tableName"], {}>) => SelectQueryBuilder<DB, EntityDef["tableName"], {}>,
+    relations: Relations,
+  ): Promise<Array<WithLazyRelations<MappableOutputType<EntityDef>, Relations>>> {
+    const entities: Array<MappableOutputType<EntityDef>> = await this.getMany(entityDef, builder);
+    return withLazyRelations(entities, relations, this.loadRelationsOptions());
+  }
+
+  // Like getOne(), but relations are only loaded when accessed through $load()
+  async getOneLazy<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    Relations extends RelationsToLoad,
+  >(
+    entityDef: EntityDef,
+    builder: (qb: SelectQueryBuilder<DB, EntityDef["tableName"], {}>) => SelectQueryBuilder<DB, EntityDef["tableName"], {}>,
+    relations: Relations,
+  ): Promise<WithLazyRelations<MappableOutputType<EntityDef>, Relations> | null> {
+    const entity: MappableOutputType<EntityDef> | null = await this.getOne(entityDef, builder);
+    return entity ? withLazyRelations([entity], relations, this.loadRelationsOptions())[0] : null;
+  }
+
+  // Returns the page after the `after` cursor, or the page at `offset` together with the total count.
+  // The order of the builder is replaced by the orderBy option.
+  async paginate<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    Options extends PaginationOptions,
+    Relations extends RelationsToLoad | undefined,
+  >(
+    entityDef: EntityDef,
+    builder: (qb: SelectQueryBuilder<DB, EntityDef["tableName"], {}>) => SelectQueryBuilder<DB, EntityDef["tableName"], {}>,
+    options: Options,
+    relations?: Relations,
+  ): Promise<Page<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>, Options>> {
+    const orderBy = uniqueOrderBy(options.orderBy, entityDef.primaryKey);
+    let qb: SelectQueryBuilder<any, any, {}> = builder(selectFrom(this, entityDef).selectAll(entityDef.tableName) as SelectQueryBuilder<DB, EntityDef["tableName"], {}>)
+      .clearOrderBy();
+    let total: number | null = null;
+    if ("offset" in options) {
+      const [{ count }] = await runQuery(this, entityDef.tableName, (this.kysely as Kysely<any>)
+        .selectFrom(qb.as(countAlias))
+        .select(eb => eb.fn.countAll().as("count")));
+      total = Number(count);
+      qb = qb.offset(options.offset);
+    } else if (options.after != null) {
+      qb = whereAfterCursor(this, qb, orderBy, decodeCursor(options.after, orderBy));
+    }
+    for (const [column, order] of orderBy) {
+      qb = qb.orderBy(column, order);
+    }
+    // One extra row tells whether there is a next page
+    const rows = await runQuery(this, entityDef.tableName, qb.limit(options.first + 1));
+    const pageRows = rows.slice(0, options.first);
+    const items = await this.loadMany(entityDef, pageRows, relations);
+    const pageInfo = {
+      endCursor: pageRows.length ? encodeCursor(pageRows[pageRows.length - 1], orderBy) : null,
+      hasNextPage: rows.length > options.first,
+    };
+    return (total == null ? { items, pageInfo } : { items, pageInfo, total }) as Page<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>, Options>;
+  }
+
+  // Yields entities without reading every row into memory first. Relations are loaded for a chunk of
+  // entities at a time while the stream is still open, so they need a free connection in the pool.
+  async *stream<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    Relations extends RelationsToLoad | undefined,
+  >(
+    entityDef: EntityDef,
+    builder: (qb: SelectQueryBuilder<DB, EntityDef["tableName"], {}>) => SelectQueryBuilder<DB, EntityDef["tableName"], {}>,
+    relations?: Relations,
+    options: StreamOptions = {},
+  ): AsyncIterable<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>> {
+    // Relation queries of a transaction would wait for the stream to end, which waits for them
+    if (relations && Object.keys(relations).length && this.kysely.isTransaction) {
+      throw new SnadiError("stream() can't load relations within a transaction, its connection is busy streaming");
+    }
+    const chunkSize = options.chunkSize ?? 100;
+    const qb = builder(selectFrom(this, entityDef).selectAll(entityDef.tableName) as SelectQueryBuilder<DB, EntityDef["tableName"], {}>);
+    let rows: any[] = [];
+    for await (const row of streamQuery(this, entityDef.tableName, qb, chunkSize)) {
+      rows.push(row);
+      if (rows.length >= chunkSize) {
+        yield* await this.loadMany(entityDef, rows, relations);
+        rows = [];
+      }
+    }
+    if (rows.length) {
+      yield* await this.loadMany(entityDef, rows, relations);
+    }
+  }
+
   async insert<EntityDef extends ValidSnadiKyselyEntityDefinition<DB>>(
     entityDef: EntityDef,
     data: InsertInput<EntityDef> | Array<InsertInput<EntityDef>>,
     builder?: (qb: InsertQueryBuilder<DB, EntityDef["tableName"], {}>) => InsertQueryBuilder<DB, EntityDef["tableName"], {}>,
   ): Promise<InsertResult> {
-    const dataToInsert = Array.isArray(data)
-      ? await asyncMap(data, d => entityDef.toInsert(d))
-      : await entityDef.toInsert(data);
+    const rows = await this.insertRows(entityDef, Array.isArray(data) ? data : [data]);
     let query: InsertQueryBuilder<DB, string & keyof DB, any> = this.kysely
       .insertInto(entityDef.tableName)
-      .values(dataToInsert);
+      .values(Array.isArray(data) ? rows : rows[0]);
     if (builder) {
       query = builder(query);
     }
-    return query.executeTakeFirst();
+    const [result] = await write(this, entityDef.tableName, query);
+    for (const row of rows) {
+      await entityDef.afterInsert?.(row, this);
+    }
+    return result;
+  }
+
+  // Inserts the data and returns the mapped entity, optionally with relations
+  async create<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    Relations extends RelationsToLoad | undefined,
+  >(
+    entityDef: EntityDef,
+    data: InsertInput<EntityDef>,
+    relations?: Relations,
+  ): Promise<CreateResult<EntityDef, WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>> {
+    const entities = await this.insertEntities(entityDef, [data], relations);
+    return (entities && entities[0]) as CreateResult<EntityDef, WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>;
+  }
+
+  // Inserts the data with a single query and returns the mapped entities in the same order, optionally with relations
+  async createMany<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    Relations extends RelationsToLoad | undefined,
+  >(
+    entityDef: EntityDef,
+    data: Array<InsertInput<EntityDef>>,
+    relations?: Relations,
+  ): Promise<CreateResult<EntityDef, Array<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>>> {
+    return this.insertEntities(entityDef, data, relations) as Promise<CreateResult<EntityDef, Array<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>>>;
+  }
+
+  // Validates and converts the inputs into rows to insert, and runs the beforeInsert hook
+  private async insertRows(entityDef: SnadiKyselyEntityDefinition, inputs: unknown[]): Promise<any[]> {
+    const rows = await asyncMap(inputs, async (input) => {
+      return withTimestamps(entityDef.timestamps, await entityDef.toInsert(await validateInput(entityDef, entityDef.insertSchema, input)), "insert");
+    });
+    for (const row of rows) {
+      await entityDef.beforeInsert?.(row, this);
+    }
+    return rows;
+  }
+
+  // Uses RETURNING where the dialect supports it. MySQL doesn't, so inserted rows are selected
+  // again by their primary key, or by the auto increment id for rows that didn't specify one.
+  private async insertEntities(entityDef: ValidSnadiKyselyEntityDefinition<DB>, inputs: unknown[], relations?: RelationsToLoad): Promise<any[] | null> {
+    const primaryKey = entityDef.primaryKey && toKeyFields(entityDef.primaryKey);
+    if (inputs.length === 0) {
+      return primaryKey ? [] : null;
+    }
+    const rows = await this.insertRows(entityDef, inputs);
+
+    if (this.kysely.getExecutor().adapter.supportsReturning) {
+      const query = (this.kysely as Kysely<any>).insertInto(entityDef.tableName).values(rows);
+      const inserted = await write(this, entityDef.tableName, query.returningAll());
+      for (const [i, row] of rows.entries()) {
+        await entityDef.afterInsert?.({ ...row, ...inserted[i] }, this);
+      }
+      return primaryKey ? this.loadMany(entityDef, inserted, relations) : null;
+    }
+
+    // MySQL returns the first generated id, and the ids generated by a single insert are consecutive.
+    // Rows with their own key go first so they can't make the generated ids jump.
+    // This assumes auto_increment_increment = 1 and an innodb_autoinc_lock_mode other than 2 (interleaved).
+    const generatesKey = (row: any) => primaryKey?.length === 1 && row[primaryKey[0]] == null;
+    const [{ insertId }] = await write(this, entityDef.tableName, (this.kysely as Kysely<any>).insertInto(entityDef.tableName).values([
+      ...rows.filter(row => ! generatesKey(row)),
+      ...rows.filter(generatesKey),
+    ]));
+    let generatedKeys = 0;
+    const insertedRows = rows.map(row => generatesKey(row) && insertId != null ? { ...row, [primaryKey![0]]: Number(insertId) + generatedKeys++ } : row);
+    for (const row of insertedRows) {
+      await entityDef.afterInsert?.(row, this);
+    }
+    if (! primaryKey) {
+      return null;
+    }
+    const keys = insertedRows.map(row => typeof entityDef.primaryKey === "string" ? row[primaryKey[0]] : primaryKey.map(field => row[field]));
+    return this.findMany(entityDef, keys, relations);
+  }
+
+  // Inserts the data, or updates the listed columns of rows that conflict with it, and returns the mapped entities.
+  // Lifecycle hooks don't run, since each row may be either inserted or updated.
+  async upsert<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    Data extends InsertInput<EntityDef> | Array<InsertInput<EntityDef>>,
+    Relations extends RelationsToLoad | undefined,
+  >(
+    entityDef: EntityDef,
+    data: Data,
+    options: UpsertOptions<DB[EntityDef["tableName"]]>,
+    relations?: Relations,
+  ): Promise<Data extends any[] ? Array<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>> : WithLoadedRelations<MappableOutputType<EntityDef>, Relations>> {
+    const inputs: unknown[] = Array.isArray(data) ? data : [data];
+    const rows = await asyncMap(inputs, async (input) => {
+      return withTimestamps(entityDef.timestamps, await entityDef.toInsert(await validateInput(entityDef, entityDef.insertSchema, input)), "insert");
+    });
+    if (rows.length === 0) {
+      return [] as any;
+    }
+    const conflict: string[] = options.conflict;
+    const columns = upsertColumns(entityDef.timestamps, rows, options.update);
+    const tableName: string = entityDef.tableName;
+    const insert = (this.kysely as Kysely<any>).insertInto(tableName).values(rows);
+    const adapter = this.kysely.getExecutor().adapter;
+    const query = adapter instanceof MysqlAdapter
+      ? insert.onDuplicateKeyUpdate(Object.fromEntries(columns.map(column => [column, sql`values(${sql.ref(column)})`])))
+      : insert.onConflict(oc => oc.columns(conflict).doUpdateSet(Object.fromEntries(columns.map(column => [column, sql.ref(`excluded.${column}`)]))));
+
+    // MySQL has no RETURNING, the rows are selected again by their conflict columns
+    const upserted = adapter.supportsReturning
+      ? await write(this, entityDef.tableName, query.returningAll())
+      : await write(this, entityDef.tableName, query).then(() => loadInChunks(this, distinctKeys(rows, conflict), undefined, (chunk) => {
+        return runQuery(this, tableName, whereKeys(this, (this.kysely as Kysely<any>).selectFrom(tableName), conflict, chunk).selectAll());
+      }));
+    const entities = await this.loadMany(entityDef, upserted, relations);
+    // The order of returned rows isn't guaranteed, so entities are put back in the order of the data
+    const entitiesByKey = new Map(upserted.map((row, i) => [keyValue(row, conflict), entities[i]]));
+    const ordered = rows.map(row => entitiesByKey.get(keyValue(row, conflict)));
+    return (Array.isArray(data) ? ordered : ordered[0]) as any;
+  }
+
+  // Inserts the entity and the related entities given under the relations' names in a transaction.
+  // Keys of inserted entities are copied into the foreign keys of the ones that refer to them.
+  async insertGraph<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    Relations extends RelationsToLoad,
+  >(
+    entityDef: EntityDef,
+    data: InsertGraphInput<InsertInput<EntityDef>, Relations>,
+    relations: Relations,
+  ): Promise<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>> {
+    const insert = (orm: SnadiKyselyOrm<DB>) => {
+      return insertEntityGraph(entityDef, data, relations, (otherEntityDef, row) => orm.create(otherEntityDef as ValidSnadiKyselyEntityDefinition<DB>, row));
+    };
+    return this.inTransaction(insert);
+  }
+
+  // Deletes the entities and their related entities following the onDelete rules of the relations, children first, in a transaction.
+  // The builder also selects the entities to find their related entities.
+  async deleteCascade<EntityDef extends ValidSnadiKyselyEntityDefinition<DB>>(
+    entityDef: EntityDef,
+    builder: WhereBuilder<DB, EntityDef["tableName"]>,
+    relations: RelationsToLoad,
+  ): Promise<void> {
+    await this.inTransaction(async (trxOrm) => {
+      // where() returns the builder it is called on, so this is still the select query
+      const qb = builder(selectFrom(trxOrm, entityDef)) as SelectQueryBuilder<any, any, {}>;
+      const rows = await runQuery(trxOrm, entityDef.tableName, qb.selectAll(entityDef.tableName));
+      await deleteRelated(trxOrm, entityDef, rows, relations, []);
+      await trxOrm.delete(entityDef, builder);
+    });
+  }
+
+  // Links the entity to the other entities of a belongsToMany relation with the given keys. pivotData is added to each pivot row.
+  async attach<LocalEntityDef extends ValidSnadiKyselyEntityDefinition<DB>>(
+    entity: MappableOutputType<LocalEntityDef>,
+    relation: ManyRelationship<LocalEntityDef, any>,
+    keys: unknown[],
+    pivotData: Record<string, unknown> = {},
+  ): Promise<void> {
+    const pivot = pivotTableOf(relation);
+    if (keys.length) {
+      await write(this, pivot.table, (this.kysely as Kysely<any>).insertInto(pivot.table).values(keys.map(key => ({ ...pivotData, ...pivotRow(pivot, entity, key) }))));
+    }
+  }
+
+  // Unlinks the entity from the other entities of a belongsToMany relation with the given keys, or from all of them
+  async detach<LocalEntityDef extends ValidSnadiKyselyEntityDefinition<DB>>(
+    entity: MappableOutputType<LocalEntityDef>,
+    relation: ManyRelationship<LocalEntityDef, any>,
+    keys?: unknown[],
+  ): Promise<void> {
+    const pivot = pivotTableOf(relation);
+    if (keys?.length === 0) {
+      return;
+    }
+    let qb = whereKeys(this, (this.kysely as Kysely<any>).deleteFrom(pivot.table), pivot.pivotLocalFields, [pivot.localFields.map(field => (entity as any)[field])]);
+    if (keys) {
+      qb = whereKeys(this, qb, pivot.pivotOtherFields, keys.map(key => pivotOtherValues(pivot, key)));
+    }
+    await write(this, pivot.table, qb);
+  }
+
+  // Links the entity to exactly the other entities with the given keys, attaching and detaching only what changed
+  async sync<LocalEntityDef extends ValidSnadiKyselyEntityDefinition<DB>>(
+    entity: MappableOutputType<LocalEntityDef>,
+    relation: ManyRelationship<LocalEntityDef, any>,
+    keys: unknown[],
+    pivotData: Record<string, unknown> = {},
+  ): Promise<SyncResult> {
+    const pivot = pivotTableOf(relation);
+    const sync = async (orm: SnadiKyselyOrm<DB>) => {
+      const rows = await runQuery(orm, pivot.table, whereKeys(orm, (orm.kysely as Kysely<any>).selectFrom(pivot.table), pivot.pivotLocalFields, [pivot.localFields.map(field => (entity as any)[field])])
+        .select(pivot.pivotOtherFields));
+      const currentKeys = new Map(rows.map(row => [keyValue(row, pivot.pivotOtherFields), pivotOtherKey(pivot, row)]));
+      const wantedKeys = new Map(keys.map(key => [keyValue(pivotRow(pivot, entity, key), pivot.pivotOtherFields), key]));
+      const attached = Array.from(wantedKeys).filter(([key]) => ! currentKeys.has(key)).map(([, key]) => key);
+      const detached = Array.from(currentKeys).filter(([key]) => ! wantedKeys.has(key)).map(([, key]) => key);
+      await orm.detach(entity, relation, detached);
+      await orm.attach(entity, relation, attached, pivotData);
+      return { attached, detached };
+    };
+    return this.inTransaction(sync);
   }
 
   async update<
@@ -99,17 +556,108 @@ export class SnadiKyselyOrm<DB> {
     builder: (qb: QB) => QB,
     data: UpdateInput<EntityDef>,
   ): Promise<UpdateResult> {
-    const qb = builder(this.kysely.updateTable(entityDef.tableName) as unknown as QB);
-    const dataToUpdate = await entityDef.toUpdate(data);
-    return qb.set(dataToUpdate).executeTakeFirst();
+    return (await this.updateFields(entityDef, builder, data)).result;
+  }
+
+  // Validates and updates the data, and returns the fields it wrote with their timestamps
+  private async updateFields<QB extends UpdateQueryBuilder<any, any, any, UpdateResult>>(
+    entityDef: SnadiKyselyEntityDefinition,
+    builder: (qb: QB) => QB,
+    data: unknown,
+  ): Promise<{ result: UpdateResult; dataToUpdate: any }> {
+    let qb: UpdateQueryBuilder<any, any, any, UpdateResult> = builder((this.kysely as Kysely<any>).updateTable(entityDef.tableName) as unknown as QB);
+    const dataToUpdate = withTimestamps(entityDef.timestamps, await entityDef.toUpdate(await validateInput(entityDef, entityDef.updateSchema, data)), "update");
+    await entityDef.beforeUpdate?.(dataToUpdate, builder, this);
+    let fields = dataToUpdate;
+    if (entityDef.version) {
+      qb = qb.where(entityDef.version, "=", expectedVersion(entityDef, dataToUpdate));
+      fields = { ...dataToUpdate, [entityDef.version]: sql`${sql.ref(entityDef.version)} + 1` };
+    }
+    const [result] = await write(this, entityDef.tableName, qb.set(fields));
+    if (entityDef.version && result.numUpdatedRows === 0n) {
+      throw new StaleEntityError(entityDef.tableName, dataToUpdate[entityDef.version]);
+    }
+    await entityDef.afterUpdate?.(dataToUpdate, builder, this);
+    return { result, dataToUpdate };
+  }
+
+  // Updates the fields of a loaded entity that changed since it was loaded or last saved, by its primary key.
+  // Returns false without running a query when nothing changed.
+  async save(entity: object): Promise<boolean> {
+    const changed = changedFields(entity);
+    if (! changed) {
+      throw new SnadiError("Only entities loaded by an ORM from an entity definition with a primaryKey can be saved");
+    }
+    const entityDef = changed.entityDef as ValidSnadiKyselyEntityDefinition<DB>;
+    const changes = changed.changes;
+    if (Object.keys(changes).length === 0) {
+      return false;
+    }
+    // The row to update is found by its primary key, so it can't change
+    const primaryKey = toKeyFields(entityDef.primaryKey!);
+    const changedKeyFields = primaryKey.filter(field => Object.hasOwn(changes, field));
+    if (changedKeyFields.length) {
+      throw new SnadiError(`Primary key ${changedKeyFields.join(", ")} of ${entityDef.tableName} changed since it was loaded, it can't be saved`);
+    }
+    const keyValues = primaryKey.map(field => (entity as any)[field]);
+    if (entityDef.version) {
+      changes[entityDef.version] = (entity as any)[entityDef.version];
+    }
+    const { dataToUpdate } = await this.updateFields(entityDef, qb => whereKeys(this, qb, primaryKeyColumns(entityDef), [keyValues]), changes);
+    if (entityDef.version) {
+      (entity as any)[entityDef.version] = Number(changes[entityDef.version]) + 1;
+    }
+    if (entityDef.timestamps?.updatedAt) {
+      (entity as any)[entityDef.timestamps.updatedAt] = dataToUpdate[entityDef.timestamps.updatedAt];
+    }
+    snapshotEntity(entityDef, entity, { replace: true });
+    return true;
   }
 
+  // Soft deletes rows of entities with a softDelete column, removes them otherwise
   async delete<EntityDef extends ValidSnadiKyselyEntityDefinition<DB>>(
     entityDef: EntityDef,
-    builder: (qb: DeleteQueryBuilder<DB, EntityDef["tableName"], DeleteResult>) => DeleteQueryBuilder<DB, EntityDef["tableName"], DeleteResult>,
+    builder: WhereBuilder<DB, EntityDef["tableName"]>,
+  ): Promise<DeleteResult> {
+    if (! entityDef.softDelete) {
+      return this.forceDelete(entityDef, builder);
+    }
+    const column = entityDef.softDelete.column;
+    // where() returns the builder it is called on, so this is still the update query
+    const qb = builder((this.kysely as Kysely<any>).updateTable(entityDef.tableName).where(column, "is", null)) as UpdateQueryBuilder<any, any, any, UpdateResult>;
+    await entityDef.beforeDelete?.(builder, this);
+    const [result] = await write(this, entityDef.tableName, qb.set({ [column]: sql`CURRENT_TIMESTAMP` }));
+    await entityDef.afterDelete?.(builder, this);
+    return new DeleteResult(result.numUpdatedRows);
+  }
+
+  // Removes rows, including soft deleted ones
+  async forceDelete<EntityDef extends ValidSnadiKyselyEntityDefinition<DB>>(
+    entityDef: EntityDef,
+    builder: WhereBuilder<DB, EntityDef["tableName"]>,
   ): Promise<DeleteResult> {
-    const qb = builder(this.kysely.deleteFrom(entityDef.tableName) as DeleteQueryBuilder<DB, EntityDef["tableName"], DeleteResult>);
-    return qb.executeTakeFirst();
+    const qb = builder(this.kysely.deleteFrom(entityDef.tableName) as DeleteQueryBuilder<DB, EntityDef["tableName"], DeleteResult>) as DeleteQueryBuilder<DB, EntityDef["tableName"], DeleteResult>;
+    await entityDef.beforeDelete?.(builder, this);
+    const [result] = await write(this, entityDef.tableName, qb);
+    await entityDef.afterDelete?.(builder, this);
+    return result;
+  }
+
+  // Brings soft deleted rows back
+  async restore<
+    EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
+    QB extends UpdateQueryBuilder<DB, EntityDef["tableName"], EntityDef["tableName"], UpdateResult>,
+  >(
+    entityDef: EntityDef,
+    builder: (qb: QB) => QB,
+  ): Promise<UpdateResult> {
+    if (! entityDef.softDelete) {
+      throw new SnadiError(`Entity ${entityDef.tableName} has no softDelete column to restore`);
+    }
+    const column = entityDef.softDelete.column;
+    const qb = builder((this.kysely as Kysely<any>).updateTable(entityDef.tableName).where(column, "is not", null) as unknown as QB);
+    const [result] = await write(this, entityDef.tableName, qb.set({ [column]: null } as any));
+    return result;
   }
 
   async transaction<T>(
@@ -118,11 +666,20 @@ export class SnadiKyselyOrm<DB> {
   ): Promise<T> {
     const transaction = config ? config(this.kysely.transaction()) : this.kysely.transaction();
     return transaction.execute(async (trx) => {
-      const trxOrm = new SnadiKyselyOrm(trx);
+      // Loads within the transaction must not be batched together with loads outside it
+      const trxOrm = new SnadiKyselyOrm(trx, {
+        ...this.options,
+        batchContext: this.options.batchContext && new BatchContext(),
+      });
       return fn(trxOrm);
     });
   }
 
+  // Kysely can't nest transactions, so fn runs in the current one if there is one
+  private async inTransaction<T>(fn: (orm: SnadiKyselyOrm<DB>) => Promise<T>): Promise<T> {
+    return this.kysely.isTransaction ? fn(this) : this.transaction(fn);
+  }
+
   async loadOne<
     EntityDef extends ValidSnadiKyselyEntityDefinition<DB>,
     Relations extends RelationsToLoad | undefined,
@@ -133,13 +690,14 @@ export class SnadiKyselyOrm<DB> {
   ): Promise<WithLoadedRelations<MappableOutputType<EntityDef>, Relations> | null> {
     const row = await promise;
     if (Array.isArray(row)) {
-      throw new Error("load function of loadOne() should return a single row, got an array instead");
+      throw new SnadiError("load function of loadOne() should return a single row, got an array instead");
     }
     if (row == null) {
       return null;
     }
-    const entity = await mapToEntity(entityDef, row);
-    return relations ? loadRelationsForEntity(entity, relations) : entity;
+    const entity = await mapToEntity(entityDef, row, this.options.identityMap);
+    await this.afterLoad(entityDef, entity);
+    return relations ? loadRelationsForEntity(entity, relations, this.loadRelationsOptions()) : entity;
   }
 
   async loadMany<
@@ -152,15 +710,342 @@ export class SnadiKyselyOrm<DB> {
   ): Promise<Array<WithLoadedRelations<MappableOutputType<EntityDef>, Relations>>> {
     const rows = await promise;
     if (! Array.isArray(rows)) {
-      throw new Error("load function of loadMany() should return an array of rows, got a non-array instead");
+      throw new SnadiError("load function of loadMany() should return an array of rows, got a non-array instead");
+    }
+    const entities = await mapArrayToEntity(entityDef, rows, this.options.identityMap);
+    for (const entity of entities) {
+      await this.afterLoad(entityDef, entity);
+    }
+    return relations ? loadRelationsForArray(entities, relations, this.loadRelationsOptions()) : entities;
+  }
+
+  protected loadRelationsOptions(): LoadRelationsOptions {
+    return {
+      batchContext: this.options.batchContext,
+      identityMap: this.options.identityMap,
+      maxConcurrency: this.options.maxConcurrency,
+      onRelationLoad: this.options.onRelationLoad,
+      afterLoad: (entityDef, entity) => this.afterLoad(entityDef, entity),
+    };
+  }
+
+  protected async afterLoad(entityDef: EntityDefinition, entity: any): Promise<void> {
+    await (entityDef as SnadiKyselyEntityDefinition).afterLoad?.(entity, this);
+    // Entities that can be found again by their primary key can be saved
+    if ((entityDef as SnadiKyselyEntityDefinition).primaryKey != null && entity !== null && typeof entity === "object") {
+      snapshotEntity(entityDef, entity);
     }
-    const entities = await mapArrayToEntity(entityDef, rows);
-    return relations ? loadRelationsForArray(entities, relations) : entities;
   }
 }
 
-export function createKyselyOrm<DB>(kysely: Kysely<DB>): SnadiKyselyOrm<DB> {
-  return new SnadiKyselyOrm(kysely);
+const countAlias = "__snadi_count";
+
+function primaryKeyColumns(entityDef: SnadiKyselyEntityDefinition): string[] {
+  if (entityDef.primaryKey == null) {
+    throw new SnadiError(`Entity ${entityDef.tableName} has no primaryKey`);
+  }
+  return toKeyFields(entityDef.primaryKey).map(field => `${entityDef.tableName}.${field}`);
+}
+
+type ExecutableQuery<O> = { compile: () => CompiledQuery; execute: () => Promise<O[]> };
+
+// Runs a write query, rethrowing driver errors that snadi knows about, e.g. unique constraint violations, as snadi errors
+async function write<O>(orm: SnadiKyselyOrm<any>, table: string, qb: ExecutableQuery<O>): Promise<O[]> {
+  try {
+    return await runQuery(orm, table, qb);
+  } catch (error) {
+    throw normalizeDriverError(table, error);
+  }
+}
+
+// Runs a query, reporting it to the onQuery listener with the relation path it is loaded for, or the error it failed with
+async function runQuery<O>(
+  orm: SnadiKyselyOrm<any>,
+  table: string,
+  qb: ExecutableQuery<O>,
+  relationPath: string | null = null,
+): Promise<O[]> {
+  const start = performance.now();
+  let rows: O[];
+  try {
+    rows = await qb.execute();
+  } catch (error) {
+    reportQuery(orm, { table, relationPath, qb, start, rowCount: 0, error });
+    throw error;
+  }
+  reportQuery(orm, { table, relationPath, qb, start, rowCount: affectedRowCount(rows) });
+  return rows;
+}
+
+// Writes without RETURNING execute to a single result with the number of affected rows
+function affectedRowCount(rows: unknown[]): number {
+  const [result] = rows;
+  if (result instanceof InsertResult) {
+    return Number(result.numInsertedOrUpdatedRows ?? 0);
+  }
+  if (result instanceof UpdateResult) {
+    return Number(result.numUpdatedRows);
+  }
+  if (result instanceof DeleteResult) {
+    return Number(result.numDeletedRows);
+  }
+  return rows.length;
+}
+
+// Streams the rows of a select query, reporting it to the onQuery listener once the stream is closed
+async function* streamQuery<O>(
+  orm: SnadiKyselyOrm<any>,
+  table: string,
+  qb: { compile: () => CompiledQuery; stream: (chunkSize: number) => AsyncIterableIterator<O> },
+  chunkSize: number,
+): AsyncIterable<O> {
+  const start = performance.now();
+  let rowCount = 0;
+  let failure: { error: unknown } | undefined;
+  try {
+    for await (const row of qb.stream(chunkSize)) {
+      rowCount++;
+      yield row;
+    }
+  } catch (error) {
+    failure = { error };
+    throw error;
+  } finally {
+    // Also reached when the consumer stops early
+    reportQuery(orm, { table, relationPath: null, qb, start, rowCount, ...failure });
+  }
+}
+
+function reportQuery(
+  orm: SnadiKyselyOrm<any>,
+  query: { table: string; relationPath: string | null; qb: { compile: () => CompiledQuery }; start: number; rowCount: number; error?: unknown },
+): void {
+  orm.options.onQuery?.({
+    table: query.table,
+    relationPath: query.relationPath,
+    sql: query.qb.compile().sql,
+    rowCount: query.rowCount,
+    durationMs: performance.now() - query.start,
+    ...("error" in query ? { error: query.error } : {}),
+  });
+}
+
+function validateInput(entityDef: SnadiKyselyEntityDefinition, schema: StandardSchemaV1 | undefined, data: any): Promise<any> {
+  return schema ? validateWithSchema(entityDef, schema, data) : Promise.resolve(data);
+}
+
+function expectedVersion(entityDef: SnadiKyselyEntityDefinition, fields: any): unknown {
+  if (fields?.[entityDef.version!] == null) {
+    throw new SnadiError(`Updates of ${entityDef.tableName} need the expected ${entityDef.version}`);
+  }
+  return fields[entityDef.version!];
+}
+
+// Query of the entity's table that leaves out soft deleted rows, unless the ORM asks for them
+function selectFrom(orm: SnadiKyselyOrm<any>, entityDef: SnadiKyselyEntityDefinition): SelectQueryBuilder<any, any, {}> {
+  const qb = orm.kysely.selectFrom(entityDef.tableName);
+  if (! entityDef.softDelete || orm.options.trashed === "with") {
+    return qb;
+  }
+  const column = `${entityDef.tableName}.${entityDef.softDelete.column}`;
+  return qb.where(column, orm.options.trashed === "only" ? "is not" : "is", null);
+}
+
+// Rows that come after the cursor values in the given order, e.g. for (title desc, id asc):
+// title < ? or (title = ? and id > ?)
+// NULL values are compared with IS NULL, where they sort in the dialect's NULL order
+function whereAfterCursor<QB extends SelectQueryBuilder<any, any, any>>(orm: SnadiKyselyOrm<any>, qb: QB, orderBy: Array<[column: string, order: "asc" | "desc"]>, values: unknown[]): QB {
+  // PostgreSQL sorts NULL after every value in ascending order, SQLite and MySQL sort it first
+  const nullsLast = orm.kysely.getExecutor().adapter instanceof PostgresAdapter;
+  return qb.where(({ or, and, cmpr }) => or(orderBy.flatMap(([column, order], i) => {
+    const ascending = order === "asc";
+    // Nothing comes after a NULL that sorts last
+    if (values[i] == null && ascending === nullsLast) {
+      return [];
+    }
+    const comparison = values[i] == null
+      ? cmpr(column, "is not", null)
+      : ascending === nullsLast
+        ? or([cmpr(column, ascending ? ">" : "<", values[i]), cmpr(column, "is", null)])
+        : cmpr(column, ascending ? ">" : "<", values[i]);
+    return [and([
+      ...orderBy.slice(0, i).map(([previousColumn], j) => values[j] == null ? cmpr(previousColumn, "is", null) : cmpr(previousColumn, "=", values[j])),
+      comparison,
+    ])];
+  }))) as QB;
+}
+
+export function createKyselyOrm<DB>(kysely: Kysely<DB>, options: SnadiKyselyOrmOptions = {}): SnadiKyselyOrm<DB> {
+  return new SnadiKyselyOrm(kysely, options);
+}
+
+// Selects from the other entity's table, typed by its definition so its column names are checked
+type RelatedQueryBuilder<OtherEntityDef extends SnadiKyselyEntityDefinition> =
+  SelectQueryBuilder<EntitiesToKyselyDatabase<OtherEntityDef>, OtherEntityDef["tableName"], {}>;
+
+export type RelationOptions<OtherEntityDef extends SnadiKyselyEntityDefinition = any> = {
+  query?: (qb: RelatedQueryBuilder<OtherEntityDef>) => RelatedQueryBuilder<OtherEntityDef>;
+  orderBy?: Array<[column: string, order: "asc" | "desc"]>;
+  // Maximum number of keys per query, defaults to the ORM's keyChunkSize
+  chunkSize?: number;
+};
+
+export type HasOneOptions<OtherEntityDef extends SnadiKyselyEntityDefinition = any> = RelationOptions<OtherEntityDef> & {
+  // What orm.deleteCascade() does with the related entities, defaults to "cascade"
+  onDelete?: OnDeleteRule;
+};
+
+export type HasManyOptions<OtherEntityDef extends SnadiKyselyEntityDefinition = any> = HasOneOptions<OtherEntityDef> & {
+  // Maximum number of related entities to load for each local entity
+  limit?: number;
+};
+
+const rowNumberAlias = "__snadi_row_number";
+
+// Dialects that support row values, e.g. (tenant_id, id) in ((1, 2), (1, 3))
+function supportsRowValues(orm: SnadiKyselyOrm<any>): boolean {
+  const adapter = orm.kysely.getExecutor().adapter;
+  return adapter instanceof SqliteAdapter || adapter instanceof PostgresAdapter || adapter instanceof MysqlAdapter;
+}
+
+function whereKeys<QB extends WhereInterface<any, any>>(orm: SnadiKyselyOrm<any>, qb: QB, columns: string[], keys: any[][]): QB {
+  if (columns.length === 1) {
+    return qb.where(columns[0], "in", keys.map(key => key[0])) as QB;
+  }
+  if (supportsRowValues(orm)) {
+    const columnList = sql.join(columns.map(column => sql.ref(column)));
+    const keyList = sql.join(keys.map(key => sql`(${sql.join(key)})`));
+    return qb.where(sql`(${columnList}) in (${keyList})`) as QB;
+  }
+  return qb.where(({ or, and, cmpr }) => or(keys.map(key => and(columns.map((column, i) => cmpr(column, "=", key[i])))))) as QB;
+}
+
+// Composite keys with a missing part are left out, they can't match anything
+function distinctKeys(entities: any[], fields: string[]): any[][] {
+  const keys = new Map<unknown, any[]>();
+  for (const entity of entities) {
+    const key = keyValue(entity, fields);
+    if (! keys.has(key) && (fields.length === 1 || key != null)) {
+      keys.set(key, fields.map(field => entity[field]));
+    }
+  }
+  return Array.from(keys.values());
+}
+
+// Applies the onDelete rules of the relations to the entities related to the rows, deleting nested relations first
+async function deleteRelated(orm: SnadiKyselyOrm<any>, entityDef: SnadiKyselyEntityDefinition, rows: any[], relations: RelationsToLoad, path: string[]): Promise<void> {
+  for (const [key, relationshipOrNested] of Object.entries(relations)) {
+    const relationship = (Array.isArray(relationshipOrNested) ? relationshipOrNested[0] : relationshipOrNested) as BaseRelationship<any, any>;
+    const subrelations = Array.isArray(relationshipOrNested) ? relationshipOrNested[1] : {};
+    const relationPath = [...path, key];
+    if (! relationship.keys) {
+      throw new SnadiError(`Relation ${relationPath.join(".")} can't cascade deletes, only hasOne and hasMany relations can`);
+    }
+    // Deleting or unlinking the parent would leave its other children dangling
+    if (refersToParent(entityDef, relationship)) {
+      throw new SnadiError(`Relation ${relationPath.join(".")} can't cascade deletes, it refers to the primary key of ${relationship.otherEntity.tableName}`);
+    }
+    const { localFields, otherFields } = relationship.keys;
+    const otherEntityDef: SnadiKyselyEntityDefinition = relationship.otherEntity;
+    const keys = distinctKeys(rows, localFields);
+    const otherRows = await loadInChunks(orm, keys, undefined, (chunk) => {
+      return runQuery(orm, otherEntityDef.tableName, whereKeys(orm, selectFrom(orm, otherEntityDef), otherFields, chunk).selectAll(otherEntityDef.tableName));
+    });
+    if (otherRows.length === 0) {
+      continue;
+    }
+    switch (relationship.onDelete ?? "cascade") {
+      case "restrict":
+        throw new RestrictedDeleteError(entityDef.tableName, relationPath.join("."), otherRows.length);
+      case "setNull":
+        await write(orm, otherEntityDef.tableName, whereKeys(orm, (orm.kysely as Kysely<any>).updateTable(otherEntityDef.tableName), otherFields, keys)
+          .set(Object.fromEntries(otherFields.map(field => [field, null]))));
+        break;
+      case "cascade":
+        await deleteRelated(orm, otherEntityDef, otherRows, subrelations, relationPath);
+        await orm.delete(otherEntityDef, qb => whereKeys(orm, qb, otherFields, keys));
+        break;
+    }
+  }
+}
+
+// Runs one query per chunk of keys so big loads stay below the database's bound parameter limit
+async function loadInChunks(
+  orm: SnadiKyselyOrm<any>,
+  keys: any[][],
+  chunkSize: number | undefined,
+  loadChunk: (keys: any[][]) => Promise<any[]>,
+): Promise<any[]> {
+  const size = Math.max(1, chunkSize ?? orm.options.keyChunkSize ?? keys.length);
+  const rows: any[] = [];
+  for (let i = 0; i < keys.length; i += size) {
+    rows.push(...await loadChunk(keys.slice(i, i + size)));
+  }
+  return rows;
+}
+
+// Maps rows through the ORM's identity map with the definition the wrapping relation stands for
+function mapWithIdentityMap(orm: SnadiKyselyOrm<any>, entityDef: EntityDefinition, data: any): Promise<any> {
+  return orm.options.identityMap ? orm.options.identityMap.map(entityDef, data) : Promise.resolve(entityDef.toEntity(data));
+}
+
+// Relations with a query callback can't be compared, so they are never batched
+function relationBatchKey(
+  otherEntityDef: SnadiKyselyEntityDefinition,
+  localFields: string[],
+  otherFields: string[],
+  options: HasManyOptions,
+): string | undefined {
+  if (options.query) {
+    return undefined;
+  }
+  return JSON.stringify([otherEntityDef.tableName, localFields, otherFields, options.orderBy ?? [], options.limit ?? null]);
+}
+
+async function loadRelatedRows(
+  orm: SnadiKyselyOrm<any>,
+  otherEntityDef: SnadiKyselyEntityDefinition,
+  otherFields: string[],
+  keys: any[][],
+  options: HasManyOptions,
+  relationPath: string | null,
+): Promise<any[]> {
+  const tableName = otherEntityDef.tableName;
+  let qb: SelectQueryBuilder<any, any, {}> = whereKeys(orm, selectFrom(orm, otherEntityDef), otherFields.map(field => `${tableName}.${field}`), keys);
+  if (options.query) {
+    qb = options.query(qb);
+  }
+  const orderBy = options.orderBy ?? [];
+  if (options.limit == null) {
+    let ordered = qb.selectAll(tableName);
+    for (const [column, order] of orderBy) {
+      ordered = ordered.orderBy(column, order);
+    }
+    return runQuery(orm, tableName, ordered, relationPath);
+  }
+
+  // Limits are applied per local entity by numbering the rows of each key in a subquery
+  const windowOrderBy = orderBy.length
+    ? orderBy
+    : toKeyFields(otherEntityDef.primaryKey ?? otherFields).map(column => [column, "asc"] as const);
+  const ranked = qb
+    .selectAll(tableName)
+    .select(eb => eb.fn.agg<number>("row_number").over(ob => {
+      ob = ob.partitionBy(otherFields.map(field => `${tableName}.${field}`));
+      for (const [column, order] of windowOrderBy) {
+        ob = ob.orderBy(column, order);
+      }
+      return ob;
+    }).as(rowNumberAlias));
+  let limited = orm.kysely
+    .selectFrom(ranked.as(tableName))
+    .selectAll()
+    .where(rowNumberAlias, "<=", options.limit);
+  for (const [column, order] of orderBy) {
+    limited = limited.orderBy(column, order);
+  }
+  const rows = await runQuery(orm, tableName, limited, relationPath);
+  return rows.map(({ [rowNumberAlias]: rowNumber, ...row }) => row);
 }
 
 export function hasOne<
@@ -168,31 +1053,38 @@ export function hasOne<
   OtherEntityDef extends SnadiKyselyEntityDefinition,
 >(
   localEntityDef: LocalEntityDef, // Just here for type hints
-  localField: keyof MappableOutputType<LocalEntityDef>,
+  localField: KeyField<LocalEntityDef>,
   otherEntityDef: OtherEntityDef,
-  otherField: keyof MappableOutputType<OtherEntityDef>,
+  otherField: KeyField<OtherEntityDef>,
+  options: HasOneOptions<OtherEntityDef> = {},
 ): (orm: SnadiKyselyOrm<any>) => OneRelationship<LocalEntityDef, OtherEntityDef> {
+  const localFields = toKeyFields(localField as KeyFields);
+  const otherFields = toKeyFields(otherField as KeyFields);
   return (orm) => {
     return {
       otherEntity: otherEntityDef,
-      load: async (localEntities) => {
-        const keys = new Set(localEntities.map(e => e[localField]));
-        if (keys.size === 0) {
+      table: otherEntityDef.tableName,
+      keys: { localFields, otherFields },
+      onDelete: options.onDelete,
+      batchKey: relationBatchKey(otherEntityDef, localFields, otherFields, options),
+      load: async (localEntities, context) => {
+        const keys = distinctKeys(localEntities, localFields);
+        if (keys.length === 0) {
           return [];
         }
-        return orm.kysely
-          .selectFrom(otherEntityDef.tableName)
-          .where(otherField as string, "in", Array.from(keys))
-          .selectAll()
-          .execute();
+        return loadInChunks(orm, keys, options.chunkSize, chunk => loadRelatedRows(orm, otherEntityDef, otherFields, chunk, options, context?.relationPath ?? null));
       },
       attach: (otherEntities) => {
-        const otherEntitiesByKey = new Map<any, MappableOutputType<OtherEntityDef>>();
+        const otherEntitiesByKey = new Map<unknown, MappableOutputType<OtherEntityDef>>();
         for (const otherEntity of otherEntities) {
-          otherEntitiesByKey.set(otherEntity[otherField], otherEntity);
+          // The first match wins so an orderBy option decides which entity gets attached
+          const key = keyValue(otherEntity, otherFields);
+          if (! otherEntitiesByKey.has(key)) {
+            otherEntitiesByKey.set(key, otherEntity);
+          }
         }
         return (localEntity) => {
-          return otherEntitiesByKey.get(localEntity[localField]) ?? null;
+          return otherEntitiesByKey.get(keyValue(localEntity, localFields)) ?? null;
         };
       },
     };
@@ -204,34 +1096,379 @@ export function hasMany<
   OtherEntityDef extends SnadiKyselyEntityDefinition,
 >(
   localEntityDef: LocalEntityDef, // Just here for type hints
-  localField: keyof MappableOutputType<LocalEntityDef>,
+  localField: KeyField<LocalEntityDef>,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  options: HasManyOptions<OtherEntityDef> = {},
+): (orm: SnadiKyselyOrm<any>) => ManyRelationship<LocalEntityDef, OtherEntityDef> {
+  const localFields = toKeyFields(localField as KeyFields);
+  const otherFields = toKeyFields(otherField as KeyFields);
+  return (orm) => {
+    return {
+      otherEntity: otherEntityDef,
+      table: otherEntityDef.tableName,
+      keys: { localFields, otherFields },
+      onDelete: options.onDelete,
+      batchKey: relationBatchKey(otherEntityDef, localFields, otherFields, options),
+      load: async (localEntities, context) => {
+        const keys = distinctKeys(localEntities, localFields);
+        if (keys.length === 0) {
+          return [];
+        }
+        return loadInChunks(orm, keys, options.chunkSize, chunk => loadRelatedRows(orm, otherEntityDef, otherFields, chunk, options, context?.relationPath ?? null));
+      },
+      attach: (otherEntities) => {
+        const otherEntitiesByKey = new Map<unknown, Array<MappableOutputType<OtherEntityDef>>>();
+        for (const otherEntity of otherEntities) {
+          const key = keyValue(otherEntity, otherFields);
+          if (! otherEntitiesByKey.has(key)) {
+            otherEntitiesByKey.set(key, []);
+          }
+          otherEntitiesByKey.get(key)!.push(otherEntity);
+        }
+        return (localEntity) => {
+          return otherEntitiesByKey.get(keyValue(localEntity, localFields)) ?? [];
+        };
+      },
+    };
+  };
+}
+
+type AggregateFunction = "count" | "sum" | "max";
+
+const aggregateKeyAlias = "__snadi_aggregate_key";
+const aggregateValueAlias = "__snadi_aggregate_value";
+
+function aggregate<
+  LocalEntityDef extends SnadiKyselyEntityDefinition,
+  OtherEntityDef extends SnadiKyselyEntityDefinition,
+  Result,
+>(
+  localField: KeyField<LocalEntityDef>,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  fn: AggregateFunction,
+  column: string,
+  toResult: (value: any) => Result,
+  options: RelationOptions<OtherEntityDef>,
+): (orm: SnadiKyselyOrm<any>) => AggregateRelationship<LocalEntityDef, Result> {
+  const localFields = toKeyFields(localField as KeyFields);
+  const otherColumns = toKeyFields(otherField as KeyFields).map(field => `${otherEntityDef.tableName}.${field}`);
+  const keyAliases = otherColumns.map((_, i) => `${aggregateKeyAlias}_${i}`);
+  return (orm) => {
+    return {
+      load: async (localEntities, context) => {
+        const keys = distinctKeys(localEntities, localFields);
+        if (keys.length === 0) {
+          return [];
+        }
+        return loadInChunks(orm, keys, options.chunkSize, (chunk) => {
+          let qb: SelectQueryBuilder<any, any, {}> = whereKeys(orm, selectFrom(orm, otherEntityDef), otherColumns, chunk);
+          if (options.query) {
+            qb = options.query(qb);
+          }
+          const aggregateQb = qb
+            .groupBy(otherColumns)
+            .select(eb => [
+              ...otherColumns.map((column, i) => eb.ref(column).as(keyAliases[i])),
+              (fn === "count" ? eb.fn.countAll() : fn === "sum" ? eb.fn.sum(column) : eb.fn.max(column)).as(aggregateValueAlias),
+            ]);
+          return runQuery(orm, otherEntityDef.tableName, aggregateQb, context?.relationPath ?? null);
+        });
+      },
+      attach: (rows) => {
+        const valuesByKey = new Map<unknown, any>();
+        for (const row of rows) {
+          valuesByKey.set(keyValue(row, keyAliases), row[aggregateValueAlias]);
+        }
+        return (localEntity) => {
+          return toResult(valuesByKey.get(keyValue(localEntity, localFields)));
+        };
+      },
+    };
+  };
+}
+
+export function withCount<
+  LocalEntityDef extends SnadiKyselyEntityDefinition,
+  OtherEntityDef extends SnadiKyselyEntityDefinition,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  localField: KeyField<LocalEntityDef>,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  options: RelationOptions<OtherEntityDef> = {},
+): (orm: SnadiKyselyOrm<any>) => AggregateRelationship<LocalEntityDef, number> {
+  return aggregate(localField, otherEntityDef, otherField, "count", "*", value => Number(value ?? 0), options);
+}
+
+export function withSum<
+  LocalEntityDef extends SnadiKyselyEntityDefinition,
+  OtherEntityDef extends SnadiKyselyEntityDefinition,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  localField: KeyField<LocalEntityDef>,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  column: keyof MappableOutputType<OtherEntityDef>,
+  options: RelationOptions<OtherEntityDef> = {},
+): (orm: SnadiKyselyOrm<any>) => AggregateRelationship<LocalEntityDef, number> {
+  return aggregate(localField, otherEntityDef, otherField, "sum", `${otherEntityDef.tableName}.${String(column)}`, value => Number(value ?? 0), options);
+}
+
+export function withMax<
+  LocalEntityDef extends SnadiKyselyEntityDefinition,
+  OtherEntityDef extends SnadiKyselyEntityDefinition,
+  Column extends keyof MappableOutputType<OtherEntityDef>,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  localField: KeyField<LocalEntityDef>,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  column: Column,
+  options: RelationOptions<OtherEntityDef> = {},
+): (orm: SnadiKyselyOrm<any>) => AggregateRelationship<LocalEntityDef, MappableOutputType<OtherEntityDef>[Column] | null> {
+  return aggregate(localField, otherEntityDef, otherField, "max", `${otherEntityDef.tableName}.${String(column)}`, value => value ?? null, options);
+}
+
+export function withExists<
+  LocalEntityDef extends SnadiKyselyEntityDefinition,
+  OtherEntityDef extends SnadiKyselyEntityDefinition,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  localField: KeyField<LocalEntityDef>,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  options: RelationOptions<OtherEntityDef> = {},
+): (orm: SnadiKyselyOrm<any>) => AggregateRelationship<LocalEntityDef, boolean> {
+  return aggregate(localField, otherEntityDef, otherField, "count", "*", value => Number(value ?? 0) > 0, options);
+}
+
+type PivotFields<PivotColumn extends string> = [PivotColumn] extends [never]
+  ? {}
+  : { pivot: { [K in PivotColumn]: any } };
+
+export type BelongsToManyEntityDefinition<
+  OtherEntityDef extends SnadiKyselyEntityDefinition,
+  PivotColumn extends string,
+> = Omit<Omit<OtherEntityDef, "toEntity">, "primaryKey"> & {
+  toEntity: (data: MappableInputType<OtherEntityDef>) => Promise<MappableOutputType<OtherEntityDef> & PivotFields<PivotColumn>>;
+};
+
+const pivotLocalKeyAlias = "__snadi_pivot_local_key";
+const pivotColumnAliasPrefix = "__snadi_pivot_";
+
+export function belongsToMany<
+  LocalEntityDef extends SnadiKyselyEntityDefinition,
+  OtherEntityDef extends SnadiKyselyEntityDefinition,
+  PivotColumn extends string = never,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  localField: KeyField<LocalEntityDef>,
+  pivotTable: string,
+  pivotLocalField: KeyFields,
+  pivotOtherField: KeyFields,
+  otherEntityDef: OtherEntityDef,
+  otherField: KeyField<OtherEntityDef>,
+  options: { pivotColumns?: PivotColumn[]; chunkSize?: number } = {},
+): (orm: SnadiKyselyOrm<any>) => ManyRelationship<LocalEntityDef, BelongsToManyEntityDefinition<OtherEntityDef, PivotColumn>> {
+  const pivotColumns = options.pivotColumns ?? [];
+  const localFields = toKeyFields(localField as KeyFields);
+  const pivotLocalFields = toKeyFields(pivotLocalField);
+  const pivotOtherFields = toKeyFields(pivotOtherField);
+  const otherFields = toKeyFields(otherField as KeyFields);
+  const localKeyAliases = pivotLocalFields.map((_, i) => `${pivotLocalKeyAlias}_${i}`);
+  // Each pivot row is mapped on its own, an identity map must not merge the rows of entities related to several local entities
+  const { primaryKey, ...pivotEntityDef }: Omit<OtherEntityDef, "toEntity"> = otherEntityDef;
+  return (orm) => {
+    return {
+      pivot: { table: pivotTable, localFields, pivotLocalFields, pivotOtherFields, otherFields },
+      table: otherEntityDef.tableName,
+      otherEntity: {
+        ...pivotEntityDef,
+        schema: otherEntityDef.schema && passthroughSchema(
+          () => otherEntityDef.schema,
+          field => field.startsWith(pivotLocalKeyAlias) || field.startsWith(pivotColumnAliasPrefix),
+        ),
+        toEntity: async (data) => {
+          const rest = { ...data };
+          for (const alias of localKeyAliases) {
+            delete rest[alias];
+          }
+          const pivot: Record<string, any> = {};
+          for (const column of pivotColumns) {
+            pivot[column] = rest[pivotColumnAliasPrefix + column];
+            delete rest[pivotColumnAliasPrefix + column];
+          }
+          // Entities with pivot fields differ per pivot row, the others are shared through the identity map
+          const entity = pivotColumns.length ? await otherEntityDef.toEntity(rest) : await mapWithIdentityMap(orm, otherEntityDef, rest);
+          if (pivotColumns.length) {
+            entity.pivot = pivot;
+          }
+          return entity;
+        },
+        afterLoad: async (entity, orm) => {
+          await otherEntityDef.afterLoad?.(entity, orm);
+          if (primaryKey != null) {
+            snapshotEntity(otherEntityDef, entity, { exclude: ["pivot"] });
+          }
+        },
+      },
+      load: async (localEntities, context) => {
+        const keys = distinctKeys(localEntities, localFields);
+        if (keys.length === 0) {
+          return [];
+        }
+        return loadInChunks(orm, keys, options.chunkSize, (chunk) => {
+          const qb = selectFrom(orm, otherEntityDef)
+            .innerJoin(pivotTable, (join) => {
+              return pivotOtherFields.reduce((join, field, i) => join.onRef(`${pivotTable}.${field}`, "=", `${otherEntityDef.tableName}.${otherFields[i]}`), join);
+            });
+          const selectQb = whereKeys(orm, qb, pivotLocalFields.map(field => `${pivotTable}.${field}`), chunk)
+            .selectAll(otherEntityDef.tableName)
+            .select([
+              ...pivotLocalFields.map((field, i) => `${pivotTable}.${field} as ${localKeyAliases[i]}`),
+              ...pivotColumns.map(column => `${pivotTable}.${column} as ${pivotColumnAliasPrefix}${column}`),
+            ]);
+          return runQuery(orm, otherEntityDef.tableName, selectQb, context?.relationPath ?? null);
+        });
+      },
+      attach: (otherEntities, rows) => {
+        const otherEntitiesByKey = new Map<unknown, Array<MappableOutputType<OtherEntityDef> & PivotFields<PivotColumn>>>();
+        // The same row of the other table can be related to several local entities,
+        // the pivot row each entity was mapped from tells which one
+        otherEntities.forEach((otherEntity, i) => {
+          const localKey = keyValue(rows[i], localKeyAliases);
+          if (! otherEntitiesByKey.has(localKey)) {
+            otherEntitiesByKey.set(localKey, []);
+          }
+          otherEntitiesByKey.get(localKey)!.push(otherEntity);
+        });
+        return (localEntity) => {
+          return otherEntitiesByKey.get(keyValue(localEntity, localFields)) ?? [];
+        };
+      },
+    };
+  };
+}
+
+export type MorphTargets = {
+  [type: string]: [SnadiKyselyEntityDefinition, KeyFields];
+};
+
+export type MorphToEntityDefinition<Targets extends MorphTargets> = {
+  schema: StandardSchemaV1;
+  toEntity: (data: any) => Promise<MappableOutputType<Targets[keyof Targets][0]>>;
+  afterLoad: (entity: any, orm: SnadiKyselyOrm<any>) => Awaitable<void>;
+};
+
+const morphTypeAlias = "__snadi_morph_type";
+
+export function morphTo<
+  LocalEntityDef extends SnadiKyselyEntityDefinition,
+  Targets extends MorphTargets,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  typeField: keyof MappableOutputType<LocalEntityDef>,
+  idField: KeyField<LocalEntityDef>,
+  targets: Targets,
+  options: { chunkSize?: number } = {},
+): (orm: SnadiKyselyOrm<any>) => OneRelationship<LocalEntityDef, MorphToEntityDefinition<Targets>> {
+  const idFields = toKeyFields(idField as KeyFields);
+  return (orm) => {
+    const typesByEntity = new WeakMap<object, string>();
+    return {
+      // One query runs per target table
+      table: Object.values(targets).map(([targetDef]) => targetDef.tableName).join(", "),
+      otherEntity: {
+        schema: passthroughSchema(data => targets[data[morphTypeAlias]][0].schema, field => field === morphTypeAlias),
+        toEntity: async (data) => {
+          const { [morphTypeAlias]: type, ...rest } = data;
+          const entity = await mapWithIdentityMap(orm, targets[type][0], rest);
+          typesByEntity.set(entity, type);
+          return entity;
+        },
+        afterLoad: (entity, orm) => targets[typesByEntity.get(entity)!][0].afterLoad?.(entity, orm),
+      },
+      load: async (localEntities, context) => {
+        const localEntitiesByType = new Map<string, any[]>();
+        for (const localEntity of localEntities) {
+          const type = localEntity[typeField];
+          if (! Object.hasOwn(targets, type)) {
+            continue;
+          }
+          if (! localEntitiesByType.has(type)) {
+            localEntitiesByType.set(type, []);
+          }
+          localEntitiesByType.get(type)!.push(localEntity);
+        }
+        const rowsByType = await Promise.all(Array.from(localEntitiesByType.entries()).map(async ([type, localEntitiesOfType]) => {
+          const [otherEntityDef, otherField] = targets[type];
+          const keys = distinctKeys(localEntitiesOfType, idFields);
+          const rows = await loadInChunks(orm, keys, options.chunkSize, chunk => {
+            return runQuery(orm, otherEntityDef.tableName, whereKeys(orm, selectFrom(orm, otherEntityDef), toKeyFields(otherField), chunk).selectAll(), context?.relationPath ?? null);
+          });
+          return rows.map(row => ({ ...row, [morphTypeAlias]: type }));
+        }));
+        return rowsByType.flat();
+      },
+      attach: (otherEntities) => {
+        const otherEntitiesByTypeAndKey = new Map<string, Map<unknown, MappableOutputType<Targets[keyof Targets][0]>>>();
+        for (const otherEntity of otherEntities) {
+          const type = typesByEntity.get(otherEntity)!;
+          if (! otherEntitiesByTypeAndKey.has(type)) {
+            otherEntitiesByTypeAndKey.set(type, new Map());
+          }
+          otherEntitiesByTypeAndKey.get(type)!.set(keyValue(otherEntity, targets[type][1]), otherEntity);
+        }
+        return (localEntity) => {
+          return otherEntitiesByTypeAndKey.get(localEntity[typeField])?.get(keyValue(localEntity, idFields)) ?? null;
+        };
+      },
+    };
+  };
+}
+
+export function morphMany<
+  LocalEntityDef extends SnadiKyselyEntityDefinition,
+  OtherEntityDef extends SnadiKyselyEntityDefinition,
+>(
+  localEntityDef: LocalEntityDef, // Just here for type hints
+  localField: KeyField<LocalEntityDef>,
   otherEntityDef: OtherEntityDef,
-  otherField: keyof MappableOutputType<OtherEntityDef>,
+  otherTypeField: keyof MappableOutputType<OtherEntityDef>,
+  otherIdField: KeyField<OtherEntityDef>,
+  type: string,
+  options: { chunkSize?: number } = {},
 ): (orm: SnadiKyselyOrm<any>) => ManyRelationship<LocalEntityDef, OtherEntityDef> {
+  const localFields = toKeyFields(localField as KeyFields);
+  const otherIdFields = toKeyFields(otherIdField as KeyFields);
   return (orm) => {
     return {
       otherEntity: otherEntityDef,
-      load: async (localEntities) => {
-        const keys = new Set(localEntities.map(e => e[localField]));
-        if (keys.size === 0) {
+      table: otherEntityDef.tableName,
+      load: async (localEntities, context) => {
+        const keys = distinctKeys(localEntities, localFields);
+        if (keys.length === 0) {
           return [];
         }
-        return orm.kysely
-          .selectFrom(otherEntityDef.tableName)
-          .where(otherField as string, "in", Array.from(keys))
-          .selectAll()
-          .execute();
+        return loadInChunks(orm, keys, options.chunkSize, (chunk) => {
+          const qb = selectFrom(orm, otherEntityDef)
+            .where(otherTypeField as string, "=", type);
+          return runQuery(orm, otherEntityDef.tableName, whereKeys(orm, qb, otherIdFields, chunk).selectAll(), context?.relationPath ?? null);
+        });
       },
       attach: (otherEntities) => {
-        const otherEntitiesByKey = new Map<any, Array<MappableOutputType<OtherEntityDef>>>();
+        const otherEntitiesByKey = new Map<unknown, Array<MappableOutputType<OtherEntityDef>>>();
         for (const otherEntity of otherEntities) {
-          if (! otherEntitiesByKey.has(otherEntity[otherField])) {
-            otherEntitiesByKey.set(otherEntity[otherField], []);
+          const key = keyValue(otherEntity, otherIdFields);
+          if (! otherEntitiesByKey.has(key)) {
+            otherEntitiesByKey.set(key, []);
           }
-          otherEntitiesByKey.get(otherEntity[otherField])!.push(otherEntity);
+          otherEntitiesByKey.get(key)!.push(otherEntity);
         }
         return (localEntity) => {
-          return otherEntitiesByKey.get(localEntity[localField]) ?? [];
+          return otherEntitiesByKey.get(keyValue(localEntity, localFields)) ?? [];
         };
       },
     };